@@ -0,0 +1,212 @@
+import { NextResponse } from 'next/server';
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent, fetch, Response } from 'undici';
+import { parseHTML } from 'linkedom';
+import { Readability } from '@mozilla/readability';
+import { extractTextFromDocument } from '@/lib/extractors/html';
+import { processPlainText } from '@/lib/extractors/txt';
+
+export const maxDuration = 30;
+export const dynamic = 'force-dynamic';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared (CGNAT), multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [net, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) PRIVATE_RANGES.addSubnet(net, prefix, 'ipv4');
+// 6to4 (2002::/16) and Teredo (2001::/32) can tunnel to any IPv4 address, private ones included
+for (const [net, prefix] of [
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+    ['2002::', 16], ['2001::', 32],
+] as const) PRIVATE_RANGES.addSubnet(net, prefix, 'ipv6');
+
+// The 8 hextets of an IPv6 address ("::ffff:127.0.0.1" included)
+const expandIPv6 = (address: string): number[] => {
+    let text = address.toLowerCase();
+    const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number);
+        text = text.slice(0, dotted.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = text.split('::');
+    const left = head ? head.split(':') : [];
+    const right = tail ? tail.split(':') : [];
+    const middle = tail === undefined ? [] : new Array(8 - left.length - right.length).fill('0');
+    return [...left, ...middle, ...right].map(h => parseInt(h, 16) || 0);
+};
+
+// IPv4 carried inside IPv6: mapped (::ffff:a.b.c.d), compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+const embeddedIPv4 = (address: string) => {
+    const h = expandIPv6(address);
+    const isMapped = h.slice(0, 5).every(x => x === 0) && (h[5] === 0xffff || h[5] === 0);
+    const isNat64 = h[0] === 0x64 && h[1] === 0xff9b && h.slice(2, 6).every(x => x === 0);
+    if (!isMapped && !isNat64) return null;
+    return [h[6] >> 8, h[6] & 0xff, h[7] >> 8, h[7] & 0xff].join('.');
+};
+
+const isPrivateAddress = (address: string) => {
+    if (isIP(address) === 4) return PRIVATE_RANGES.check(address, 'ipv4');
+    const v4 = embeddedIPv4(address);
+    if (v4 && v4 !== '0.0.0.0' && v4 !== '0.0.0.1') return PRIVATE_RANGES.check(v4, 'ipv4');
+    return PRIVATE_RANGES.check(address, 'ipv6');
+};
+
+class PrivateAddressError extends Error {}
+
+// Refuse internal targets so the route can't be used to probe the server's network: every
+// address a hostname resolves to must be public. The check runs in the socket's own lookup,
+// so the address that passed is the one connected to (a second resolution could differ).
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '');
+        if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+            return callback(new PrivateAddressError(`${hostname} resolves to a private address`), '');
+        }
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const publicOnlyAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+// Checks that need no DNS: scheme, local names and literal IPs (which skip the lookup above).
+// Checked again for each redirect.
+const isAllowedTarget = (target: URL) => {
+    if (!['http:', 'https:'].includes(target.protocol)) return false;
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+        return false;
+    }
+    return !isIP(hostname) || !isPrivateAddress(hostname);
+};
+
+// fetch() wraps connection errors: look for the lookup's refusal among the causes
+const isPrivateAddressRefusal = (error: unknown): boolean =>
+    error instanceof PrivateAddressError || (error instanceof Error && error.cause !== undefined && isPrivateAddressRefusal(error.cause));
+
+class PageTooLargeError extends Error {}
+
+// Body as text, giving up as soon as it passes MAX_PAGE_BYTES instead of buffering all of it
+const readLimitedText = async (response: Response) => {
+    const reader = response.body?.getReader();
+    if (!reader) return '';
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > MAX_PAGE_BYTES) {
+            await reader.cancel();
+            throw new PageTooLargeError();
+        }
+        chunks.push(value);
+    }
+    return new TextDecoder().decode(Buffer.concat(chunks));
+};
+
+export async function POST(req: Request) {
+    try {
+        const { url } = await req.json();
+
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch {
+            return NextResponse.json({ error: 'A valid URL is required' }, { status: 400 });
+        }
+
+        // 1. Fetch page, following redirects by hand so each hop is checked
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+        let response: Response | null = null;
+        let body: string;
+        try {
+            for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+                if (!isAllowedTarget(target)) {
+                    return NextResponse.json({ error: 'URL is not allowed' }, { status: 400 });
+                }
+                response = await fetch(target, {
+                    headers: {
+                        'User-Agent': 'Mozilla/5.0 (compatible; PhotonReader/1.0)',
+                        'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9'
+                    },
+                    redirect: 'manual',
+                    signal: controller.signal,
+                    dispatcher: publicOnlyAgent
+                });
+                const location = response.headers.get('location');
+                if (response.status < 300 || response.status >= 400 || !location) break;
+                await response.body?.cancel();
+                target = new URL(location, target);
+                response = null;
+            }
+
+            if (!response) {
+                return NextResponse.json({ error: 'Too many redirects' }, { status: 502 });
+            }
+            if (!response.ok) {
+                return NextResponse.json({ error: `Page returned ${response.status}` }, { status: 502 });
+            }
+            if (Number(response.headers.get('content-length')) > MAX_PAGE_BYTES) {
+                return NextResponse.json({ error: 'Page is too large' }, { status: 413 });
+            }
+            body = await readLimitedText(response);
+        } catch (error) {
+            if (error instanceof PageTooLargeError) {
+                return NextResponse.json({ error: 'Page is too large' }, { status: 413 });
+            }
+            if (isPrivateAddressRefusal(error)) {
+                return NextResponse.json({ error: 'URL is not allowed' }, { status: 400 });
+            }
+            throw error;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.startsWith('text/plain')) {
+            return NextResponse.json({ ...processPlainText(body), title: target.pathname.split('/').pop() || target.hostname });
+        }
+
+        // 2. Readability: isolate the main article from navigation, ads and comments
+        const { document } = parseHTML(body);
+        const article = new Readability(document as unknown as Document).parse();
+
+        const title = (article?.title || document.title || target.hostname).trim();
+        const { document: articleDoc } = parseHTML(
+            `<!DOCTYPE html><html><body><article>${article?.content || document.body?.innerHTML || ''}</article></body></html>`
+        );
+
+        // 3. Words + heading-based chapters, same pipeline as the HTML importer
+        const processed = extractTextFromDocument(articleDoc as unknown as Document);
+        if (processed.words.length === 0) {
+            return NextResponse.json({ error: 'No readable text found on this page' }, { status: 422 });
+        }
+
+        // Readability drops the <h1> that repeats the title, so name the lead-in after the article
+        if (processed.chapters[0]?.title === 'Start') {
+            processed.chapters[0].title = title;
+        }
+
+        return NextResponse.json({ ...processed, title });
+
+    } catch (error: unknown) {
+        console.error("Extract API Error:", error);
+
+        let errorMessage = 'Internal Server Error';
+        if (error instanceof Error) {
+            errorMessage = error.name === 'AbortError' ? 'Page took too long to respond' : error.message;
+        } else if (typeof error === 'string') {
+            errorMessage = error;
+        }
+
+        return NextResponse.json({ error: errorMessage }, { status: 500 });
+    }
+}
@@ -4,6 +4,10 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { randomUUID } from 'crypto';
+import { alignWordMarks, BoundaryCue, escapeSSML } from '@/lib/tts-marks';
+import { getCacheKey, readCachedChunk, writeCachedChunk } from '@/lib/tts-cache';
+import { DEFAULT_VOICE, getVoiceLocale, isValidVoiceId } from '@/lib/voices';
+import { clampSynthRate, formatProsodyRate } from '@/lib/speech-rate';
 
 export const maxDuration = 30; // Attempt to increase Vercel timeout
 export const dynamic = 'force-dynamic';
@@ -11,22 +15,56 @@ export const dynamic = 'force-dynamic';
 export async function POST(req: Request) {
     let tempFilePath: string | null = null;
     try {
-        const { text, voice = "en-US-AndrewNeural" } = await req.json();
+        const { text, words, voice = DEFAULT_VOICE, rate = 1 } = await req.json();
 
-        if (!text) {
+        // The voice ends up inside SSML, so only accept well-formed Edge voice ids
+        if (typeof voice !== 'string' || !isValidVoiceId(voice)) {
+            return NextResponse.json({ error: 'Invalid voice' }, { status: 400 });
+        }
+        if (typeof rate !== 'number' || !Number.isFinite(rate)) {
+            return NextResponse.json({ error: 'Invalid rate' }, { status: 400 });
+        }
+        // Speed multiplier relative to the voice's normal pace (1 = +0%)
+        const prosodyRate = formatProsodyRate(clampSynthRate(rate));
+
+        // `words` keeps one slot per display word (possibly empty) so marks map back to indices.
+        // Plain `text` is still accepted; its whitespace-split words become the slots.
+        const chunkWords: string[] = Array.isArray(words)
+            ? words.map((w: unknown) => String(w ?? ''))
+            : String(text || '').split(/\s+/).filter(w => w.length > 0);
+        const spokenText = chunkWords.filter(w => w.trim().length > 0).join(' ');
+
+        if (!spokenText) {
             return NextResponse.json({ error: 'Text is required' }, { status: 400 });
         }
 
+        // 0. Cache lookup (same words + voice + settings -> same audio)
+        const cacheKey = getCacheKey(chunkWords, voice, { rate: prosodyRate });
+        const cached = await readCachedChunk(cacheKey).catch((e) => {
+            console.warn("TTS cache read failed:", e);
+            return null;
+        });
+        if (cached) {
+            return NextResponse.json({
+                audio: cached.audio.toString('base64'),
+                marks: cached.marks,
+                cached: true
+            });
+        }
+
         // 1. Generate temp file path
         const fileName = `${randomUUID()}.mp3`;
         tempFilePath = path.join(os.tmpdir(), fileName);
 
-        // 2. Synthesize to file (Neutrel Speed)
+        // 2. Synthesize to file at the requested speed, with word boundaries written to `<file>.json`
         const tts = new EdgeTTS({
-            voice: voice
+            voice: voice,
+            lang: getVoiceLocale(voice), // xml:lang must match the voice or pronunciation suffers
+            rate: prosodyRate,
+            saveSubtitles: true
         });
 
-        await tts.ttsPromise(text, tempFilePath);
+        await tts.ttsPromise(escapeSSML(spokenText), tempFilePath);
 
         // 3. Read file
         if (!fs.existsSync(tempFilePath)) {
@@ -35,10 +73,28 @@ export async function POST(req: Request) {
         const audioBuffer = fs.readFileSync(tempFilePath);
         const audioBase64 = audioBuffer.toString('base64');
 
-        // 4. Return
+        // 4. Word boundaries -> one mark per chunk word
+        let cues: BoundaryCue[] = [];
+        const subtitlePath = `${tempFilePath}.json`;
+        if (fs.existsSync(subtitlePath)) {
+            try {
+                cues = JSON.parse(fs.readFileSync(subtitlePath, 'utf-8'));
+            } catch (e) {
+                console.warn("Failed to read word boundaries:", e);
+            }
+        }
+        // Empty marks trigger Interpolation Mode in frontend
+        const marks = cues.length > 0 ? alignWordMarks(chunkWords, cues) : [];
+
+        // Don't make the client wait for the disk write
+        writeCachedChunk(cacheKey, { audio: audioBuffer, marks }).catch((e) => {
+            console.warn("TTS cache write failed:", e);
+        });
+
+        // 5. Return
         return NextResponse.json({ 
             audio: audioBase64,
-            marks: [] // Empty marks trigger Interpolation Mode in frontend
+            marks
         });
 
     } catch (error: unknown) {
@@ -55,12 +111,14 @@ export async function POST(req: Request) {
 
         return NextResponse.json({ error: errorMessage }, { status: 500 });
     } finally {
-        // 5. Cleanup
-        if (tempFilePath && fs.existsSync(tempFilePath)) {
-            try {
-                fs.unlinkSync(tempFilePath);
-            } catch (e) {
-                console.warn("Failed to delete temp file:", e);
+        // 6. Cleanup (audio + subtitle sidecar)
+        for (const filePath of tempFilePath ? [tempFilePath, `${tempFilePath}.json`] : []) {
+            if (fs.existsSync(filePath)) {
+                try {
+                    fs.unlinkSync(filePath);
+                } catch (e) {
+                    console.warn("Failed to delete temp file:", e);
+                }
             }
         }
     }
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { CHROMIUM_FULL_VERSION, TRUSTED_CLIENT_TOKEN, generateSecMsGecToken } from 'node-edge-tts/dist/drm';
+import { FALLBACK_VOICES, TtsVoice } from '@/lib/voices';
+
+export const dynamic = 'force-dynamic';
+
+const VOICES_URL = 'https://speech.platform.bing.com/consumer/speech/synthesize/readaloud/voices/list';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // The list changes a few times a year
+
+interface EdgeVoice {
+    ShortName: string;
+    FriendlyName?: string;
+    Locale: string;
+    Gender: string;
+}
+
+let cachedVoices: { voices: TtsVoice[], fetchedAt: number } | null = null;
+
+// "Microsoft Andrew Online (Natural) - English (United States)" -> "Andrew"
+const displayName = (voice: EdgeVoice) =>
+    voice.FriendlyName?.replace(/^Microsoft\s+/, '').replace(/\s+Online.*$/, '')
+    || voice.ShortName.split('-').slice(2).join('-').replace(/Neural$/, '');
+
+export async function GET() {
+    if (cachedVoices && Date.now() - cachedVoices.fetchedAt < CACHE_TTL_MS) {
+        return NextResponse.json({ voices: cachedVoices.voices });
+    }
+
+    try {
+        const url = `${VOICES_URL}?trustedclienttoken=${TRUSTED_CLIENT_TOKEN}&Sec-MS-GEC=${generateSecMsGecToken()}&Sec-MS-GEC-Version=1-${CHROMIUM_FULL_VERSION}`;
+        const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+        if (!response.ok) throw new Error(`Voice list returned ${response.status}`);
+
+        const data: EdgeVoice[] = await response.json();
+        const voices = data
+            .map(v => ({ id: v.ShortName, name: displayName(v), locale: v.Locale, gender: v.Gender }))
+            .sort((a, b) => a.locale.localeCompare(b.locale) || a.name.localeCompare(b.name));
+
+        cachedVoices = { voices, fetchedAt: Date.now() };
+        return NextResponse.json({ voices });
+
+    } catch (error: unknown) {
+        // Not fatal: the picker still works with the built-in list
+        console.warn("Voices API Error, using fallback list:", error);
+        return NextResponse.json({ voices: FALLBACK_VOICES, fallback: true });
+    }
+}
@@ -6,17 +6,29 @@ import { Redicle } from '@/components/Redicle';
 import { ControlBar } from '@/components/ControlBar';
 import { Dropzone } from '@/components/Dropzone';
 import { Sidebar } from '@/components/Sidebar';
+import { AudioExportStatus } from '@/components/AudioExportStatus';
+import { DocumentSearch } from '@/components/DocumentSearch';
+import { StatsModal } from '@/components/StatsModal';
+import { QuizModal } from '@/components/QuizModal';
+import { FlashcardReview } from '@/components/FlashcardReview';
 import { TableOfContents } from '@/components/TableOfContents';
 import { FullScreenOverlay } from '@/components/FullScreenOverlay';
 import { ShortcutsOverlay } from '@/components/ShortcutsOverlay';
 import { HybridView } from '@/components/HybridView';
-import { Moon, Sun, Menu, Palette, Check } from 'lucide-react';
+import { Moon, Sun, Menu, Palette, Check, BarChart3, Layers } from 'lucide-react';
+import { useReadingSession } from '@/hooks/useReadingSession';
+import { useChapterQuiz } from '@/hooks/useChapterQuiz';
 import { clsx } from 'clsx';
 
 export default function Home() {
   const { theme, toggleTheme, restoreSession, goHome, colorTheme, setColorTheme, isFullScreen, currentFileId } = useStore();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isColorPickerOpen, setIsColorPickerOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+
+  useReadingSession();
+  useChapterQuiz();
 
   useEffect(() => {
     restoreSession();
@@ -26,6 +38,8 @@ export default function Home() {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
         if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        // Letter shortcuts leave browser combos (Ctrl/Cmd+B, Ctrl+H, Ctrl/Cmd+R...) alone
+        const hasModifier = e.ctrlKey || e.metaKey || e.altKey;
 
         if (e.code === 'Space') {
             e.preventDefault();
@@ -45,6 +59,15 @@ export default function Home() {
         } else if (e.key === 'f' || e.key === 'F') {
            e.preventDefault();
            useStore.getState().setIsFullScreen(!useStore.getState().isFullScreen);
+        } else if (!hasModifier && (e.key === 'b' || e.key === 'B')) {
+            e.preventDefault();
+            useStore.getState().addBookmark(); // Bookmark the current word
+        } else if (!hasModifier && (e.key === 'h' || e.key === 'H')) {
+            e.preventDefault();
+            useStore.getState().highlightSentence(); // Highlight the current sentence
+        } else if (!hasModifier && (e.key === 'r' || e.key === 'R')) {
+            e.preventDefault();
+            useStore.getState().rememberSentence(); // Add the current sentence to the flashcards
         }
     };
 
@@ -73,6 +96,10 @@ export default function Home() {
       <TableOfContents />
       <FullScreenOverlay />
       <ShortcutsOverlay />
+      <AudioExportStatus />
+      {isStatsOpen && <StatsModal onClose={() => setIsStatsOpen(false)} />}
+      <QuizModal />
+      {isReviewOpen && <FlashcardReview onClose={() => setIsReviewOpen(false)} />}
 
       {/* Floating Header */}
       {!isFullScreen && (
@@ -94,6 +121,24 @@ export default function Home() {
             </button>
         </div>
         <div className="flex items-center gap-2">
+            <DocumentSearch />
+
+            <button 
+                onClick={() => setIsStatsOpen(true)}
+                className="p-2 rounded-full hover:bg-neutral-200/50 dark:hover:bg-neutral-800/50 transition-colors"
+                aria-label="Reading stats"
+            >
+                <BarChart3 size={20} className="text-foreground opacity-80" />
+            </button>
+
+            <button 
+                onClick={() => setIsReviewOpen(true)}
+                className="p-2 rounded-full hover:bg-neutral-200/50 dark:hover:bg-neutral-800/50 transition-colors"
+                aria-label="Review flashcards"
+            >
+                <Layers size={20} className="text-foreground opacity-80" />
+            </button>
+
             {/* Color Picker */}
             <div className="relative">
                 <button 
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useStore, Annotation } from '@/store/useStore';
+import { Bookmark, Highlighter, Pencil, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+const EXCERPT_WORDS = 24;
+
+// Bookmarks & highlights of the current document, shown in the TableOfContents drawer
+export const AnnotationList = ({ onNavigate }: { onNavigate?: () => void }) => {
+    const { annotations, content, chapters, currentIndex, setCurrentIndex, updateAnnotationNote, removeAnnotation } = useStore();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+
+    if (annotations.length === 0) {
+        return (
+            <p className="px-4 py-8 text-xs text-neutral-400 text-center leading-relaxed">
+                Press <span className="font-mono font-bold">B</span> to bookmark the current word,
+                <span className="font-mono font-bold"> H</span> to highlight its sentence,
+                or drag across words below the reader.
+            </p>
+        );
+    }
+
+    const chapterTitle = (index: number) => {
+        let title = '';
+        for (const chapter of chapters) {
+            if (chapter.startIndex > index) break;
+            title = chapter.title;
+        }
+        return title;
+    };
+
+    const startEditing = (annotation: Annotation) => {
+        setEditingId(annotation.id);
+        setDraft(annotation.note || '');
+    };
+
+    const saveNote = () => {
+        if (editingId) updateAnnotationNote(editingId, draft);
+        setEditingId(null);
+    };
+
+    return (
+        <>
+            {annotations.map(annotation => {
+                const isBookmark = annotation.type === 'bookmark';
+                const excerptEnd = Math.min(annotation.endIndex, annotation.startIndex + EXCERPT_WORDS);
+                const excerpt = isBookmark
+                    ? content.slice(annotation.startIndex, annotation.startIndex + 8).join(' ')
+                    : content.slice(annotation.startIndex, excerptEnd).join(' ');
+                const isActive = currentIndex >= annotation.startIndex && currentIndex < annotation.endIndex;
+
+                return (
+                    <div
+                        key={annotation.id}
+                        onClick={() => {
+                            setCurrentIndex(annotation.startIndex);
+                            onNavigate?.();
+                        }}
+                        className={clsx(
+                            "w-full text-left p-3 rounded-xl transition-all duration-200 group relative cursor-pointer",
+                            isActive
+                                ? "bg-brand-50 dark:bg-brand-900/20 text-brand-900 dark:text-brand-100"
+                                : "text-foreground dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                        )}
+                    >
+                        <div className="flex items-start gap-2">
+                            {isBookmark
+                                ? <Bookmark size={12} className="mt-1 shrink-0 text-brand-500" />
+                                : <Highlighter size={12} className="mt-1 shrink-0 text-amber-500" />}
+                            <span className="text-sm line-clamp-3 flex-1">
+                                {excerpt}{(isBookmark || excerptEnd < annotation.endIndex) && '...'}
+                            </span>
+                        </div>
+
+                        {editingId === annotation.id ? (
+                            <input
+                                type="text"
+                                value={draft}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') saveNote();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                onBlur={saveNote}
+                                placeholder="Add a note..."
+                                className="mt-2 w-full px-2 py-1 text-xs bg-neutral-100 dark:bg-neutral-800 rounded-md outline-none focus:ring-2 focus:ring-brand-500/50"
+                                autoFocus
+                            />
+                        ) : annotation.note && (
+                            <p className="mt-1.5 text-xs italic text-neutral-500 dark:text-neutral-400 line-clamp-3">{annotation.note}</p>
+                        )}
+
+                        <div className="flex items-center gap-2 mt-1.5">
+                            <span className="text-[10px] opacity-70 truncate flex-1">{chapterTitle(annotation.startIndex)}</span>
+                            <div className="flex items-center gap-0.5 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-all">
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        startEditing(annotation);
+                                    }}
+                                    className="p-1 rounded-md hover:bg-neutral-200 dark:hover:bg-neutral-700 text-neutral-400"
+                                    title="Edit note"
+                                >
+                                    <Pencil size={12} />
+                                </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        removeAnnotation(annotation.id);
+                                    }}
+                                    className="p-1 rounded-md hover:bg-brand-100 dark:hover:bg-brand-900/50 text-neutral-400 hover:text-brand-500"
+                                    title={isBookmark ? "Remove bookmark" : "Remove highlight"}
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+        </>
+    );
+};
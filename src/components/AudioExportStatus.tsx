@@ -0,0 +1,49 @@
+import React from 'react';
+import { Headphones, X } from 'lucide-react';
+import { useStore } from '@/store/useStore';
+
+// Floating progress card for a running audiobook export (see startAudioExport)
+export const AudioExportStatus = () => {
+    const { audioExport, cancelAudioExport, dismissAudioExport } = useStore();
+    if (!audioExport) return null;
+
+    const { fileName, done, total, chapter, status, error } = audioExport;
+    const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+    return (
+        <div className="fixed bottom-6 right-6 z-[70] w-72 p-4 bg-white/90 dark:bg-black/90 backdrop-blur-xl border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+            <div className="flex items-start gap-3">
+                <div className="mt-0.5 p-1.5 rounded-lg bg-brand-100 dark:bg-brand-900/40 text-brand-600 dark:text-brand-400">
+                    <Headphones size={16} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-sm truncate text-neutral-900 dark:text-white">{fileName}</h4>
+                    <p className="text-xs text-neutral-500 truncate mt-0.5">
+                        {status === 'running' && (total > 0 ? `Synthesizing ${chapter || 'audio'}...` : 'Preparing...')}
+                        {status === 'done' && 'Audiobook downloaded'}
+                        {status === 'error' && (error || 'Export failed')}
+                    </p>
+                </div>
+                <button
+                    onClick={status === 'running' ? cancelAudioExport : dismissAudioExport}
+                    className="p-1 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-700 text-neutral-400 transition-colors"
+                    title={status === 'running' ? 'Cancel export' : 'Dismiss'}
+                >
+                    <X size={14} />
+                </button>
+            </div>
+
+            {status === 'running' && (
+                <div className="flex items-center gap-2 mt-3">
+                    <div className="h-1 flex-1 bg-neutral-200 dark:bg-neutral-700 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-brand-500 rounded-full transition-all duration-300"
+                            style={{ width: `${percent}%` }}
+                        />
+                    </div>
+                    <span className="text-[10px] text-neutral-400 dark:text-neutral-500 tabular-nums">{percent}%</span>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,10 +1,13 @@
 import React from "react";
 import { useStore } from "@/store/useStore";
 import { useRSVP } from "@/hooks/useRSVP";
-import { Play, Pause, RotateCcw, RotateCw, Maximize, Volume2, VolumeX } from "lucide-react";
+import { Play, Pause, RotateCcw, RotateCw, Maximize, Volume2, VolumeX, WholeWord } from "lucide-react";
+import { VoicePicker } from "./VoicePicker";
+import { PageJump } from "./PageJump";
+import { MAX_AUDIO_WPM } from "@/lib/speech-rate";
 
 export const ControlBar = () => {
-  const { isPlaying, wpm, setWpm, currentFileId, reset, setIsFullScreen, isFullScreen, feedback, isAudioEnabled, toggleAudio } = useStore();
+  const { isPlaying, wpm, setWpm, currentFileId, reset, setIsFullScreen, isFullScreen, feedback, isAudioEnabled, toggleAudio, displayMode, setDisplayMode } = useStore();
   const { progress } = useRSVP(false); // Passive mode, just for progress
   
   // Show controls for demo file too, so users can test audio
@@ -24,6 +27,11 @@ export const ControlBar = () => {
           </div>
       )}
 
+      {/* Source Page (PDFs) */}
+      <div className="absolute top-1.5 right-6">
+        <PageJump />
+      </div>
+
       {/* Progress Bar */}
       <div className="group w-full h-1.5 bg-neutral-200/50 dark:bg-neutral-800 rounded-full overflow-hidden mb-6 cursor-pointer">
         <div
@@ -41,11 +49,11 @@ export const ControlBar = () => {
           {showControls && (
             <>
                 <button
-                    onClick={wpm > 450 ? undefined : toggleAudio}
-                    className={`p-2 sm:p-3 rounded-full transition-all ${wpm > 450 ? 'text-neutral-300 dark:text-neutral-700 cursor-not-allowed' : isAudioEnabled ? 'text-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
-                    title={wpm > 450 ? "Audio unavailable > 450 WPM" : (isAudioEnabled ? "Mute Text-to-Speech" : "Enable Text-to-Speech")}
+                    onClick={wpm > MAX_AUDIO_WPM ? undefined : toggleAudio}
+                    className={`p-2 sm:p-3 rounded-full transition-all ${wpm > MAX_AUDIO_WPM ? 'text-neutral-300 dark:text-neutral-700 cursor-not-allowed' : isAudioEnabled ? 'text-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
+                    title={wpm > MAX_AUDIO_WPM ? `Audio unavailable > ${MAX_AUDIO_WPM} WPM` : (isAudioEnabled ? "Mute Text-to-Speech" : "Enable Text-to-Speech")}
                 >
-                    {wpm > 450 ? (
+                    {wpm > MAX_AUDIO_WPM ? (
                         <div className="relative">
                             <VolumeX size={18} />
                             <div className="absolute inset-0 flex items-center justify-center">
@@ -56,6 +64,16 @@ export const ControlBar = () => {
                         isAudioEnabled ? <Volume2 size={18} /> : <VolumeX size={18} />
                     )}
                 </button>
+
+                <VoicePicker />
+
+                <button
+                    onClick={() => setDisplayMode(displayMode === "phrase" ? "word" : "phrase")}
+                    className={`p-2 sm:p-3 rounded-full transition-all ${displayMode === "phrase" ? "text-brand-500 bg-brand-50 dark:bg-brand-900/20" : "text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800"}`}
+                    title={displayMode === "phrase" ? "Show one word at a time" : "Show short phrases"}
+                >
+                    <WholeWord size={18} />
+                </button>
             
                 <button
                     onClick={() => handleSeek(-10)}
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '@/store/useStore';
+import { countHitsByChapter, getAdjacentHit, getHitAt, searchWords } from '@/lib/search';
+
+// Find in the open document. Matches are highlighted in HybridView while a query is set.
+export const DocumentSearch = () => {
+    const { content, chapters, currentIndex, setCurrentIndex, setIsPlaying, searchQuery, setSearchQuery } = useStore();
+    const [isOpen, setIsOpen] = useState(false);
+
+    // Open on '/' (like most readers); Escape closes
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            if (e.key === '/') {
+                e.preventDefault();
+                setIsOpen(true);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const result = searchWords(content, searchQuery);
+    const total = result.starts.length;
+    const activeHit = getHitAt(result, currentIndex);
+    const chapterCounts = countHitsByChapter(result, chapters);
+
+    const jump = (direction: 1 | -1) => {
+        const hit = getAdjacentHit(result, currentIndex, direction);
+        if (hit === -1) return;
+        setIsPlaying(false);
+        setCurrentIndex(result.starts[hit]);
+    };
+
+    const jumpToChapter = (chapterIndex: number) => {
+        const start = chapters[chapterIndex].startIndex;
+        const first = result.starts.find(s => s >= start);
+        if (first === undefined) return;
+        setIsPlaying(false);
+        setCurrentIndex(first);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="relative p-2 rounded-full hover:bg-neutral-200/50 dark:hover:bg-neutral-800/50 transition-colors"
+                aria-label="Search in document"
+                title="Search in document (/)"
+            >
+                <Search size={20} className="text-foreground opacity-80" />
+                {searchQuery && !isOpen && (
+                    <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-brand-500" />
+                )}
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                    <div className="absolute top-full right-0 mt-4 w-80 bg-white/80 dark:bg-black/80 backdrop-blur-xl border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl z-50 overflow-hidden animate-in fade-in zoom-in-95 slide-in-from-top-2 duration-200">
+                        <div className="flex items-center gap-1 p-2">
+                            <div className="relative flex-1">
+                                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+                                <input
+                                    type="text"
+                                    value={searchQuery}
+                                    onChange={(e) => setSearchQuery(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') jump(e.shiftKey ? -1 : 1);
+                                        if (e.key === 'Escape') setIsOpen(false);
+                                    }}
+                                    placeholder="Find in document..."
+                                    className="w-full pl-8 pr-16 py-2 text-sm bg-neutral-100 dark:bg-neutral-900 rounded-xl outline-none focus:ring-2 focus:ring-brand-500/50"
+                                    autoFocus
+                                />
+                                {searchQuery && (
+                                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-mono text-neutral-400 tabular-nums">
+                                        {activeHit >= 0 ? `${activeHit + 1}/${total}` : total}
+                                    </span>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => jump(-1)}
+                                disabled={total === 0}
+                                className="p-2 rounded-lg text-neutral-500 hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-30 transition-colors"
+                                title="Previous match (Shift+Enter)"
+                            >
+                                <ChevronUp size={16} />
+                            </button>
+                            <button
+                                onClick={() => jump(1)}
+                                disabled={total === 0}
+                                className="p-2 rounded-lg text-neutral-500 hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-30 transition-colors"
+                                title="Next match (Enter)"
+                            >
+                                <ChevronDown size={16} />
+                            </button>
+                            <button
+                                onClick={() => {
+                                    setSearchQuery('');
+                                    setIsOpen(false);
+                                }}
+                                className="p-2 rounded-lg text-neutral-500 hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                                title="Clear search"
+                            >
+                                <X size={16} />
+                            </button>
+                        </div>
+
+                        {/* Matches per Chapter */}
+                        {total > 0 && chapters.length > 1 && (
+                            <div className="max-h-64 overflow-y-auto p-2 pt-0 custom-scrollbar">
+                                {chapters.map((chapter, i) => chapterCounts[i] > 0 && (
+                                    <button
+                                        key={i}
+                                        onClick={() => jumpToChapter(i)}
+                                        className={clsx(
+                                            "w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-left text-xs transition-colors",
+                                            "text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                                        )}
+                                    >
+                                        <span className="flex-1 truncate">{chapter.title}</span>
+                                        <span className="font-mono text-neutral-400 tabular-nums">{chapterCounts[i]}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {searchQuery && total === 0 && (
+                            <p className="px-4 pb-3 text-xs text-neutral-400">No matches</p>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,23 +1,24 @@
 import React, { useRef, useState } from 'react';
-import { FileUp } from 'lucide-react';
-import { extractTextFromFile, ProcessedText } from '@/lib/file-utils';
+import { FileUp, ClipboardPaste, Link } from 'lucide-react';
+import { ProcessedText } from '@/lib/file-utils';
+import { extractTextFromFile, findFormat, getAcceptAttribute, getFormatLabels } from '@/lib/extractors';
 import { useStore } from '@/store/useStore';
 import { clsx } from 'clsx';
 import { SaveFileModal } from './SaveFileModal';
+import { ImportTextModal, ImportMode } from './ImportTextModal';
 
 export const Dropzone = () => {
     const { setContent } = useStore();
     const [isDragging, setIsDragging] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
-    const [pendingFile, setPendingFile] = useState<{ file: File, data: ProcessedText } | null>(null);
+    const [pendingFile, setPendingFile] = useState<{ name: string, data: ProcessedText } | null>(null);
+    const [importMode, setImportMode] = useState<ImportMode | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
 
     const handleFile = async (file: File) => {
-        // Basic type validation
-        const isValidType = file.type === 'application/pdf' || file.type === 'text/plain' || file.name.endsWith('.pdf') || file.name.endsWith('.txt');
-
-        if (!isValidType) {
-            alert('Please upload a PDF or TXT file');
+        // Basic type validation (formats come from the extractor registry)
+        if (!findFormat(file)) {
+            alert(`Please upload one of: ${getFormatLabels()}`);
             return;
         }
 
@@ -25,7 +26,7 @@ export const Dropzone = () => {
         try {
             const data = await extractTextFromFile(file);
             // Open Modal
-            setPendingFile({ file, data });
+            setPendingFile({ name: file.name.replace(/\.[^/.]+$/, ""), data }); // Remove extension
         } catch (error) {
             console.error('Extraction failed', error);
             alert('Failed to extract text from file');
@@ -63,12 +64,24 @@ export const Dropzone = () => {
             {/* Save Modal */}
             {pendingFile && (
                 <SaveFileModal 
-                    file={pendingFile.file} 
+                    defaultName={pendingFile.name} 
                     onSave={handleSave} 
                     onCancel={() => setPendingFile(null)} 
                 />
             )}
 
+            {/* Paste / URL Modal: hands its result to the same Save Modal */}
+            {importMode && (
+                <ImportTextModal
+                    initialMode={importMode}
+                    onImported={(data, name) => {
+                        setImportMode(null);
+                        setPendingFile({ name, data });
+                    }}
+                    onCancel={() => setImportMode(null)}
+                />
+            )}
+
             <div 
                 onClick={() => inputRef.current?.click()}
                 onDragOver={onDragOver}
@@ -85,7 +98,7 @@ export const Dropzone = () => {
                     type="file" 
                     ref={inputRef} 
                     className="hidden" 
-                    accept=".pdf,.txt" 
+                    accept={getAcceptAttribute()} 
                     onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
                 />
                 
@@ -102,13 +115,32 @@ export const Dropzone = () => {
                             </div>
                             <div className="space-y-1">
                                 <p className="font-semibold text-neutral-700 dark:text-white group-hover:text-brand-600 dark:group-hover:text-brand-400 transition-colors">
-                                    Click or drop PDF / TXT
+                                    Click or drop {getFormatLabels()}
                                 </p>
                             </div>
                         </>
                     )}
                 </div>
             </div>
+
+            {/* Alternative Sources */}
+            <div className="mt-3 flex items-center justify-center gap-4 text-sm">
+                <button
+                    onClick={() => setImportMode('paste')}
+                    className="flex items-center gap-1.5 text-neutral-500 dark:text-neutral-400 hover:text-brand-500 transition-colors"
+                >
+                    <ClipboardPaste size={14} />
+                    Paste text
+                </button>
+                <span className="text-neutral-300 dark:text-neutral-700">·</span>
+                <button
+                    onClick={() => setImportMode('url')}
+                    className="flex items-center gap-1.5 text-neutral-500 dark:text-neutral-400 hover:text-brand-500 transition-colors"
+                >
+                    <Link size={14} />
+                    Read from URL
+                </button>
+            </div>
         </>
     );
 };
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { X, RotateCcw, Trash2, BookOpen, Zap, Square } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '@/store/useStore';
+import { deleteFlashcard, loadFlashcards, saveFlashcard } from '@/lib/document-store';
+import { Flashcard, ReviewGrade, getClozeWords, getDueFlashcards, reviewFlashcard } from '@/lib/flashcards';
+import { RedicleDisplay } from './Redicle';
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+    { grade: 'again', label: 'Again', className: 'bg-red-500 hover:bg-red-600' },
+    { grade: 'hard', label: 'Hard', className: 'bg-amber-500 hover:bg-amber-600' },
+    { grade: 'good', label: 'Good', className: 'bg-green-500 hover:bg-green-600' },
+    { grade: 'easy', label: 'Easy', className: 'bg-brand-500 hover:bg-brand-600' },
+];
+
+interface FlashcardReviewProps {
+    onClose: () => void;
+}
+
+// Reviews the due flashcards (see lib/flashcards), either flashed word by word or as a static card
+export const FlashcardReview = ({ onClose }: FlashcardReviewProps) => {
+    const { wpm, recentFiles, loadRecentFile } = useStore();
+    const [deckSize, setDeckSize] = useState<number | null>(null);
+    const [queue, setQueue] = useState<Flashcard[]>([]);
+    const [revealed, setRevealed] = useState(false);
+    const [mode, setMode] = useState<'card' | 'rsvp'>('card');
+    const [rsvpIndex, setRsvpIndex] = useState(0);
+
+    useEffect(() => {
+        loadFlashcards()
+            .then((cards) => {
+                setDeckSize(cards.length);
+                setQueue(getDueFlashcards(cards));
+            })
+            .catch((error) => {
+                console.error('[Flashcards] Failed to load cards', error);
+                setDeckSize(0);
+            });
+    }, []);
+
+    const card = queue[0];
+    const cloze = card ? getClozeWords(card) : [];
+    const isFlashing = mode === 'rsvp' && rsvpIndex < cloze.length;
+
+    // Advance the RSVP display at the reading speed
+    useEffect(() => {
+        if (!isFlashing) return;
+        const timer = setTimeout(() => setRsvpIndex(i => i + 1), 60000 / wpm);
+        return () => clearTimeout(timer);
+    }, [isFlashing, rsvpIndex, wpm]);
+
+    const next = () => {
+        setQueue(q => q.slice(1));
+        setRevealed(false);
+        setRsvpIndex(0);
+    };
+
+    const grade = (g: ReviewGrade) => {
+        const reviewed = reviewFlashcard(card, g);
+        saveFlashcard(reviewed).catch((error) => console.error('[Flashcards] Failed to save review', error));
+        next();
+        // Failed cards come back at the end of this session
+        if (g === 'again') setQueue(q => [...q, reviewed]);
+    };
+
+    const remove = () => {
+        deleteFlashcard(card.id).catch((error) => console.error('[Flashcards] Failed to delete card', error));
+        setDeckSize(n => (n || 1) - 1);
+        next();
+    };
+
+    const sourceFile = card && recentFiles.find(f => f.id === card.fileId);
+    const openSource = async () => {
+        if (!sourceFile) return;
+        await loadRecentFile(sourceFile);
+        const state = useStore.getState();
+        if (state.currentFileId !== sourceFile.id) return; // Content missing
+        state.setCurrentIndex(card.startIndex);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 rounded-2xl shadow-xl overflow-hidden border border-neutral-200 dark:border-neutral-800"
+                onClick={(e) => e.stopPropagation()}
+            >
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-neutral-200 dark:border-neutral-800">
+                    <div>
+                        <h2 className="text-lg font-bold text-neutral-900 dark:text-white">Flashcards</h2>
+                        {deckSize !== null && (
+                            <p className="text-xs text-neutral-500">{queue.length} due · {deckSize} in deck</p>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <div className="flex p-0.5 rounded-lg bg-neutral-100 dark:bg-neutral-800">
+                            {(['card', 'rsvp'] as const).map(m => (
+                                <button
+                                    key={m}
+                                    onClick={() => {
+                                        setMode(m);
+                                        setRsvpIndex(0);
+                                    }}
+                                    className={clsx(
+                                        "flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors",
+                                        mode === m ? "bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white shadow-sm" : "text-neutral-500"
+                                    )}
+                                >
+                                    {m === 'card' ? <Square size={12} /> : <Zap size={12} />}
+                                    {m === 'card' ? 'Card' : 'RSVP'}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                        >
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {deckSize === null ? (
+                    <div className="p-12 flex justify-center">
+                        <div className="w-6 h-6 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : !card ? (
+                    <p className="p-12 text-sm text-neutral-400 text-center">
+                        {deckSize === 0
+                            ? <>Press <kbd className="px-1.5 py-0.5 rounded bg-neutral-100 dark:bg-neutral-800 font-mono text-xs">R</kbd> while reading to remember the current sentence.</>
+                            : 'All caught up. Come back when more cards are due.'}
+                    </p>
+                ) : (
+                    <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar">
+                        {isFlashing ? (
+                            <RedicleDisplay word={cloze[rsvpIndex]} progress={((rsvpIndex + 1) / cloze.length) * 100} wpm={wpm} />
+                        ) : (
+                            <p className="text-lg leading-relaxed text-neutral-900 dark:text-white">
+                                {card.words.map((word, i) => (
+                                    <React.Fragment key={i}>
+                                        {i > 0 && ' '}
+                                        {i === card.blank ? (
+                                            <span className={clsx("font-semibold", revealed ? "text-brand-600" : "text-neutral-400")}>
+                                                {revealed ? word : cloze[i]}
+                                            </span>
+                                        ) : word}
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                        )}
+
+                        <div className="flex items-center justify-between text-xs text-neutral-400">
+                            <button
+                                onClick={openSource}
+                                disabled={!sourceFile}
+                                className="flex items-center gap-1.5 min-w-0 hover:text-brand-600 disabled:hover:text-neutral-400 transition-colors"
+                                title={sourceFile ? 'Open the passage' : 'Document no longer in the library'}
+                            >
+                                <BookOpen size={12} className="shrink-0" />
+                                <span className="truncate">{card.fileName}</span>
+                            </button>
+                            <div className="flex items-center gap-1 shrink-0">
+                                {mode === 'rsvp' && !isFlashing && (
+                                    <button onClick={() => setRsvpIndex(0)} className="p-1.5 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors" title="Replay">
+                                        <RotateCcw size={14} />
+                                    </button>
+                                )}
+                                <button onClick={remove} className="p-1.5 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-red-500 transition-colors" title="Delete card">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+
+                        {!isFlashing && (revealed ? (
+                            <div className="grid grid-cols-4 gap-2">
+                                {GRADES.map(({ grade: g, label, className }) => (
+                                    <button
+                                        key={g}
+                                        onClick={() => grade(g)}
+                                        className={clsx("py-2 text-sm font-medium rounded-xl text-white transition-colors", className)}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => setRevealed(true)}
+                                className="w-full py-2 text-sm font-medium rounded-xl bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 hover:opacity-90 transition-opacity"
+                            >
+                                Show answer
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
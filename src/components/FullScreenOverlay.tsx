@@ -2,25 +2,19 @@ import React from 'react';
 import { useStore } from '@/store/useStore';
 import { useRSVP } from '@/hooks/useRSVP';
 import { Redicle } from './Redicle';
-import { Play, Pause, RotateCcw, RotateCw, Minimize2, Volume2, VolumeX } from 'lucide-react';
+import { Play, Pause, RotateCcw, RotateCw, Minimize2, Volume2, VolumeX, WholeWord } from 'lucide-react';
+import { VoicePicker } from './VoicePicker';
+import { MAX_AUDIO_WPM } from '@/lib/speech-rate';
 
 
 export const FullScreenOverlay = () => {
-    const { isFullScreen, setIsFullScreen, isPlaying, wpm, currentFileId, feedback, isAudioEnabled, toggleAudio } = useStore();
-    const { progress } = useRSVP();
+    const { isFullScreen, setIsFullScreen, isPlaying, wpm, feedback, isAudioEnabled, toggleAudio, displayMode, setDisplayMode } = useStore();
+    const { progress } = useRSVP(false); // Passive: the page's Redicle stays mounted and drives playback
 
     if (!isFullScreen) return null;
 
     const handleSeek = (seconds: number) => {
-        const wordsToSeek = Math.ceil((wpm / 60) * Math.abs(seconds));
-        const { currentIndex, content, setCurrentIndex, updateRecentFileProgress } = useStore.getState();
-        
-        const newIndex = seconds < 0 
-            ? Math.max(0, currentIndex - wordsToSeek)
-            : Math.min(content.length - 1, currentIndex + wordsToSeek);
-            
-        setCurrentIndex(newIndex);
-        if (currentFileId) updateRecentFileProgress(currentFileId, newIndex);
+        useStore.getState().seekByTime(seconds);
     };
 
     return (
@@ -41,7 +35,7 @@ export const FullScreenOverlay = () => {
             {/* Immense Reader */}
             {/* Reduced max scale on mobile to prevent clipping */}
             <div className="w-full max-w-5xl px-1 md:px-4 transform scale-100 sm:scale-125 md:scale-150 transition-transform">
-                <Redicle />
+                <Redicle isDriver={false} />
             </div>
 
             {/* Simplified Controls */}
@@ -66,12 +60,22 @@ export const FullScreenOverlay = () => {
                 </div>
 
                 <div className="flex items-center gap-8 md:gap-12">
+                    <VoicePicker size={28} />
+
+                    <button
+                        onClick={() => setDisplayMode(displayMode === 'phrase' ? 'word' : 'phrase')}
+                        className={`p-4 rounded-full transition-all ${displayMode === 'phrase' ? 'text-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
+                        title={displayMode === 'phrase' ? 'Show one word at a time' : 'Show short phrases'}
+                    >
+                        <WholeWord size={28} />
+                    </button>
+
                     <button
-                        onClick={wpm > 450 ? undefined : toggleAudio}
-                        className={`p-4 rounded-full transition-all ${wpm > 450 ? 'text-neutral-300 dark:text-neutral-700 cursor-not-allowed' : isAudioEnabled ? 'text-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
-                        title={wpm > 450 ? "Audio unavailable > 450 WPM" : (isAudioEnabled ? "Mute Text-to-Speech" : "Enable Text-to-Speech")}
+                        onClick={wpm > MAX_AUDIO_WPM ? undefined : toggleAudio}
+                        className={`p-4 rounded-full transition-all ${wpm > MAX_AUDIO_WPM ? 'text-neutral-300 dark:text-neutral-700 cursor-not-allowed' : isAudioEnabled ? 'text-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
+                        title={wpm > MAX_AUDIO_WPM ? `Audio unavailable > ${MAX_AUDIO_WPM} WPM` : (isAudioEnabled ? "Mute Text-to-Speech" : "Enable Text-to-Speech")}
                     >
-                         {wpm > 450 ? (
+                         {wpm > MAX_AUDIO_WPM ? (
                             <div className="relative">
                                 <VolumeX size={28} />
                                 <div className="absolute inset-0 flex items-center justify-center">
@@ -1,10 +1,21 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useStore } from '@/store/useStore';
 import { clsx } from 'clsx';
+import { Highlighter, X } from 'lucide-react';
+import { getHitAt, searchWords } from '@/lib/search';
+
+// Drag across words to select a span; a plain click still jumps to the word
+interface WordSelection {
+    anchor: number;
+    focus: number;
+}
 
 export const HybridView = () => {
-    const { content, currentIndex, setCurrentIndex, isFullScreen } = useStore();
+    const { content, paragraphEnds, currentIndex, setCurrentIndex, isFullScreen, annotations, addHighlight, searchQuery } = useStore();
     const containerRef = useRef<HTMLDivElement>(null);
+    const [selection, setSelection] = useState<WordSelection | null>(null);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [note, setNote] = useState('');
 
     // Static Paging Logic
     const [wordsPerPage, setWordsPerPage] = React.useState(50);
@@ -24,7 +35,17 @@ export const HybridView = () => {
     const pageIndex = Math.floor(currentIndex / wordsPerPage);
     const start = pageIndex * wordsPerPage;
     const end = Math.min(content.length, start + wordsPerPage);
-    const visibleWords = content.slice(start, end);
+
+    // Split the page at paragraph ends so it reads like the source
+    const paragraphs: { start: number; words: string[] }[] = [];
+    let paragraphStart = start;
+    for (const last of paragraphEnds) {
+        if (last < start) continue;
+        if (last >= end - 1) break;
+        paragraphs.push({ start: paragraphStart, words: content.slice(paragraphStart, last + 1) });
+        paragraphStart = last + 1;
+    }
+    paragraphs.push({ start: paragraphStart, words: content.slice(paragraphStart, end) });
 
     // Auto-scroll to top when page changes
     useEffect(() => {
@@ -33,43 +54,126 @@ export const HybridView = () => {
         }
     }, [pageIndex]);
 
+    // Finish a drag wherever the pointer is released
+    useEffect(() => {
+        if (!isSelecting) return;
+        const handlePointerUp = () => {
+            setIsSelecting(false);
+            if (selection && selection.anchor === selection.focus) {
+                setCurrentIndex(selection.anchor);
+                setSelection(null);
+            }
+        };
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => window.removeEventListener('pointerup', handlePointerUp);
+    }, [isSelecting, selection, setCurrentIndex]);
+
+    const selectionStart = selection ? Math.min(selection.anchor, selection.focus) : -1;
+    const selectionEnd = selection ? Math.max(selection.anchor, selection.focus) : -1;
+
+    const searchResult = searchWords(content, searchQuery);
+
+    const highlighted = (index: number) =>
+        annotations.some(a => a.type === 'highlight' && index >= a.startIndex && index < a.endIndex);
+
+    const clearSelection = () => {
+        setSelection(null);
+        setNote('');
+    };
+
+    const saveHighlight = () => {
+        if (!selection) return;
+        addHighlight(selectionStart, selectionEnd + 1, note);
+        clearSelection();
+    };
+
     if (isFullScreen) return null;
 
     return (
         <div 
             className={clsx(
                 "w-full max-w-2xl mt-8 rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white/50 dark:bg-black/20 backdrop-blur-sm overflow-hidden transition-all duration-500",
-                "h-auto md:max-h-60" 
+                selection && !isSelecting ? "h-auto" : "h-auto md:max-h-60" // Room for the highlight bar
             )}
         >
             <div 
                 ref={containerRef}
-                className="h-full overflow-hidden p-4 md:p-6 text-center space-x-1.5 md:space-x-2 leading-relaxed touch-pan-x select-none"
+                className="h-full overflow-hidden p-4 md:p-6 text-center space-y-2 leading-relaxed touch-pan-x select-none"
             >
-                {visibleWords.map((word, i) => {
-                    const globalIndex = start + i;
-                    const isActive = globalIndex === currentIndex;
-                    const isPast = globalIndex < currentIndex;
-
-                    return (
-                        <span
-                            key={`${globalIndex}-${word}`}
-                            data-active={isActive}
-                            onClick={() => setCurrentIndex(globalIndex)}
-                            className={clsx(
-                                "inline-block cursor-pointer transition-colors duration-200 text-sm md:text-lg rounded px-0.5",
-                                isActive 
-                                    ? "bg-brand-500 text-white font-medium scale-110 shadow-sm" 
-                                    : isPast 
-                                        ? "text-neutral-400 dark:text-neutral-500" 
-                                        : "text-neutral-700 dark:text-neutral-300 hover:text-brand-500"
-                            )}
-                        >
-                            {word}
-                        </span>
-                    );
-                })}
+                {paragraphs.map(paragraph => (
+                    <p key={paragraph.start} className="space-x-1.5 md:space-x-2">
+                        {paragraph.words.map((word, i) => {
+                            const globalIndex = paragraph.start + i;
+                            const isActive = globalIndex === currentIndex;
+                            const isPast = globalIndex < currentIndex;
+                            const isSelected = globalIndex >= selectionStart && globalIndex <= selectionEnd;
+                            const isMatch = searchResult.starts.length > 0 && getHitAt(searchResult, globalIndex) !== -1;
+
+                            return (
+                                <span
+                                    key={`${globalIndex}-${word}`}
+                                    data-active={isActive}
+                                    onPointerDown={(e) => {
+                                        if (e.button !== 0) return;
+                                        setNote('');
+                                        setSelection({ anchor: globalIndex, focus: globalIndex });
+                                        setIsSelecting(true);
+                                    }}
+                                    onPointerEnter={() => {
+                                        if (isSelecting) setSelection(prev => prev && { ...prev, focus: globalIndex });
+                                    }}
+                                    className={clsx(
+                                        "inline-block cursor-pointer transition-colors duration-200 text-sm md:text-lg rounded px-0.5",
+                                        isActive 
+                                            ? "bg-brand-500 text-white font-medium scale-110 shadow-sm" 
+                                            : isSelected
+                                                ? "bg-brand-100 dark:bg-brand-900/40 text-brand-900 dark:text-brand-100"
+                                                : isPast 
+                                                    ? "text-neutral-400 dark:text-neutral-500" 
+                                                    : "text-neutral-700 dark:text-neutral-300 hover:text-brand-500",
+                                        !isActive && !isSelected && highlighted(globalIndex) && "bg-amber-200/60 dark:bg-amber-500/20",
+                                        !isActive && !isSelected && isMatch && "ring-2 ring-brand-500/60 text-foreground"
+                                    )}
+                                >
+                                    {word}
+                                </span>
+                            );
+                        })}
+                    </p>
+                ))}
             </div>
+
+            {/* Save Selection as Highlight */}
+            {selection && !isSelecting && (
+                <div className="flex items-center gap-2 px-4 pb-4 animate-in fade-in duration-200">
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveHighlight();
+                            if (e.key === 'Escape') clearSelection();
+                        }}
+                        placeholder={`Note for ${selectionEnd - selectionStart + 1} words (optional)`}
+                        className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-neutral-100 dark:bg-neutral-800 rounded-lg outline-none focus:ring-2 focus:ring-brand-500/50"
+                        autoFocus
+                    />
+                    <button
+                        onClick={saveHighlight}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium bg-brand-500 hover:bg-brand-600 text-white rounded-lg transition-colors"
+                    >
+                        <Highlighter size={14} />
+                        Highlight
+                    </button>
+                    <button
+                        onClick={clearSelection}
+                        className="p-1.5 text-neutral-400 hover:text-foreground rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                        title="Cancel"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            )}
             
             {/* Fade Gradients for visual polish */}
             <div className="absolute inset-x-0 top-0 h-4 bg-gradient-to-b from-white/80 dark:from-black/80 to-transparent pointer-events-none" />
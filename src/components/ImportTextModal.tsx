@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { X, ClipboardPaste, Link } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ProcessedText } from '@/lib/file-utils';
+import { processPlainText } from '@/lib/extractors/txt';
+
+export type ImportMode = 'paste' | 'url';
+
+interface ImportTextModalProps {
+    initialMode: ImportMode;
+    onImported: (data: ProcessedText, suggestedName: string) => void;
+    onCancel: () => void;
+}
+
+export const ImportTextModal = ({ initialMode, onImported, onCancel }: ImportTextModalProps) => {
+    const [mode, setMode] = useState<ImportMode>(initialMode);
+    const [text, setText] = useState('');
+    const [url, setUrl] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handlePaste = () => {
+        const data = processPlainText(text);
+        if (data.words.length === 0) {
+            setError('Nothing to read yet');
+            return;
+        }
+        onImported(data, data.words.slice(0, 6).join(' '));
+    };
+
+    const handleUrl = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/extract', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url: url.trim() })
+            });
+            const data = await response.json();
+            if (!response.ok || data.error) throw new Error(data.error || `Server returned ${response.status}`);
+
+            const { title, ...processed } = data as ProcessedText & { title: string };
+            onImported(processed, title);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : 'Could not import this page');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const canSubmit = mode === 'paste' ? text.trim().length > 0 : url.trim().length > 0;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="w-full max-w-lg bg-white dark:bg-neutral-900 rounded-2xl shadow-xl overflow-hidden border border-neutral-200 dark:border-neutral-800">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-neutral-200 dark:border-neutral-800">
+                    <div className="flex items-center gap-1 p-1 bg-neutral-100 dark:bg-neutral-800 rounded-lg">
+                        {([
+                            { id: 'paste', label: 'Paste Text', icon: ClipboardPaste },
+                            { id: 'url', label: 'From URL', icon: Link }
+                        ] as const).map(tab => (
+                            <button
+                                key={tab.id}
+                                onClick={() => { setMode(tab.id); setError(null); }}
+                                className={clsx(
+                                    "flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md transition-colors",
+                                    mode === tab.id
+                                        ? "bg-white dark:bg-neutral-900 text-neutral-900 dark:text-white shadow-sm"
+                                        : "text-neutral-500 hover:text-neutral-900 dark:hover:text-white"
+                                )}
+                            >
+                                <tab.icon size={14} />
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={onCancel}
+                        className="p-2 text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="p-6 space-y-3">
+                    {mode === 'paste' ? (
+                        <textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            placeholder="Paste an article, email or any text..."
+                            className="w-full h-56 px-4 py-3 bg-neutral-100 dark:bg-neutral-800 border-none rounded-lg text-sm text-neutral-900 dark:text-white focus:ring-2 focus:ring-red-500 outline-none transition-all resize-none"
+                            autoFocus
+                        />
+                    ) : (
+                        <input
+                            type="url"
+                            value={url}
+                            onChange={(e) => setUrl(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && canSubmit && !isLoading && handleUrl()}
+                            placeholder="https://example.com/article"
+                            className="w-full px-4 py-2 bg-neutral-100 dark:bg-neutral-800 border-none rounded-lg text-neutral-900 dark:text-white focus:ring-2 focus:ring-red-500 outline-none transition-all"
+                            autoFocus
+                        />
+                    )}
+
+                    {error && (
+                        <p className="text-sm text-red-500">{error}</p>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 bg-neutral-50 dark:bg-neutral-950 flex justify-end gap-3 border-t border-neutral-200 dark:border-neutral-800">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={mode === 'paste' ? handlePaste : handleUrl}
+                        disabled={!canSubmit || isLoading}
+                        className="px-6 py-2 text-sm font-bold bg-red-600 hover:bg-red-500 text-white rounded-lg shadow-lg hover:shadow-red-500/20 transition-all disabled:opacity-50 flex items-center gap-2"
+                    >
+                        {isLoading && <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />}
+                        {isLoading ? 'Fetching...' : 'Continue'}
+                    </button>
+                </div>
+
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '@/store/useStore';
+import { getPageAt, getPageCount, getPageStart } from '@/lib/source-map';
+
+// "Page X of Y" for paginated documents; click or press 'g' to jump to a page
+export const PageJump = () => {
+    const { sourceMap, currentIndex, setCurrentIndex, setIsPlaying } = useStore();
+    const [isOpen, setIsOpen] = useState(false);
+    const [value, setValue] = useState('');
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            if ((e.key === 'g' || e.key === 'G') && useStore.getState().sourceMap) {
+                e.preventDefault();
+                setValue('');
+                setIsOpen(true);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    if (!sourceMap || getPageCount(sourceMap) === 0) return null;
+
+    const pageCount = getPageCount(sourceMap);
+    const page = getPageAt(sourceMap, currentIndex);
+
+    const jump = () => {
+        const target = parseInt(value, 10);
+        setIsOpen(false);
+        if (!Number.isFinite(target)) return;
+        setIsPlaying(false);
+        setCurrentIndex(getPageStart(sourceMap, target));
+    };
+
+    if (isOpen) {
+        return (
+            <span className="flex items-center gap-1 font-mono text-[10px] text-neutral-400 tabular-nums">
+                Page
+                <input
+                    type="number"
+                    min={1}
+                    max={pageCount}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') jump();
+                        if (e.key === 'Escape') setIsOpen(false);
+                    }}
+                    onBlur={() => setIsOpen(false)}
+                    placeholder={String(page)}
+                    className="w-12 px-1 py-0.5 text-[10px] bg-neutral-100 dark:bg-neutral-900 rounded outline-none focus:ring-2 focus:ring-brand-500/50"
+                    autoFocus
+                />
+                of {pageCount}
+            </span>
+        );
+    }
+
+    return (
+        <button
+            onClick={() => {
+                setValue('');
+                setIsOpen(true);
+            }}
+            className="font-mono text-[10px] text-neutral-400 hover:text-brand-500 tabular-nums transition-colors"
+            title="Go to page (G)"
+        >
+            Page {page} of {pageCount}
+        </button>
+    );
+};
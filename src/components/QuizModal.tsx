@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, GraduationCap } from 'lucide-react';
+import { clsx } from 'clsx';
+import { PendingQuiz, useStore } from '@/store/useStore';
+import { generateQuiz } from '@/lib/quiz';
+import { saveQuizResult } from '@/lib/document-store';
+import { QuizResult } from '@/lib/reading-stats';
+
+// End-of-chapter comprehension quiz, queued by hooks/useChapterQuiz
+export const QuizModal = () => {
+    const { pendingQuiz, currentFileId } = useStore();
+    if (!pendingQuiz || pendingQuiz.fileId !== currentFileId) return null;
+
+    // Keyed so answers reset for every chapter
+    return <QuizDialog key={`${pendingQuiz.fileId}-${pendingQuiz.chapter.startIndex}`} quiz={pendingQuiz} />;
+};
+
+const QuizDialog = ({ quiz }: { quiz: PendingQuiz }) => {
+    const { content, wpm, recentFiles, setPendingQuiz, setQuizPrompts, setIsPlaying } = useStore();
+    const { chapter } = quiz;
+    const [stage, setStage] = useState<'prompt' | 'questions' | 'result'>('prompt');
+    const [answers, setAnswers] = useState<Record<string, number>>({});
+
+    const questions = useMemo(
+        () => generateQuiz(content.slice(chapter.startIndex, chapter.startIndex + chapter.wordCount), chapter.startIndex),
+        [content, chapter]
+    );
+    const correct = questions.filter(q => answers[q.id] === q.answer).length;
+
+    const close = () => setPendingQuiz(null);
+
+    const submit = () => {
+        setStage('result');
+        const result: QuizResult = {
+            id: `${Date.now()}-${quiz.fileId}`,
+            fileId: quiz.fileId,
+            fileName: recentFiles.find(f => f.id === quiz.fileId)?.name || 'Untitled',
+            chapterTitle: chapter.title,
+            chapterStart: chapter.startIndex,
+            correct,
+            total: questions.length,
+            wpm,
+            timestamp: Date.now(),
+        };
+        saveQuizResult(result).catch((error) => console.error('[Quiz] Failed to save result', error));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onClick={close}>
+            <div
+                className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 rounded-2xl shadow-xl overflow-hidden border border-neutral-200 dark:border-neutral-800"
+                onClick={(e) => e.stopPropagation()}
+            >
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-neutral-200 dark:border-neutral-800">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold text-neutral-900 dark:text-white">Chapter complete</h2>
+                        <p className="text-xs text-neutral-500 truncate">{chapter.title}</p>
+                    </div>
+                    <button
+                        onClick={close}
+                        className="p-2 text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {stage === 'prompt' && (
+                    <div className="p-6 space-y-5">
+                        <div className="flex items-start gap-3">
+                            <div className="p-2 rounded-lg bg-brand-100 dark:bg-brand-900/40 text-brand-600 dark:text-brand-400">
+                                <GraduationCap size={20} />
+                            </div>
+                            <p className="text-sm text-neutral-600 dark:text-neutral-300">
+                                Take a quick {questions.length}-question quiz to check how much you took in at {wpm} wpm?
+                            </p>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <button
+                                onClick={() => {
+                                    setQuizPrompts(false);
+                                    close();
+                                }}
+                                className="text-xs text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-200 transition-colors"
+                            >
+                                Don&apos;t ask again
+                            </button>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => {
+                                        close();
+                                        setIsPlaying(true);
+                                    }}
+                                    className="px-4 py-2 text-sm rounded-xl text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                                >
+                                    Skip
+                                </button>
+                                <button
+                                    onClick={() => setStage('questions')}
+                                    className="px-4 py-2 text-sm font-medium rounded-xl bg-brand-500 text-white hover:bg-brand-600 transition-colors"
+                                >
+                                    Start quiz
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {stage !== 'prompt' && (
+                    <>
+                        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+                            {questions.map((q, n) => (
+                                <div key={q.id}>
+                                    <p className="text-xs font-bold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider mb-1">
+                                        {q.type === 'cloze' ? 'Fill the blank' : 'Order'} · {n + 1}/{questions.length}
+                                    </p>
+                                    <p className="text-sm text-neutral-900 dark:text-white mb-2">{q.prompt}</p>
+                                    <div className="grid gap-1.5">
+                                        {q.options.map((option, i) => {
+                                            const selected = answers[q.id] === i;
+                                            const reveal = stage === 'result';
+                                            return (
+                                                <button
+                                                    key={i}
+                                                    disabled={reveal}
+                                                    onClick={() => setAnswers(prev => ({ ...prev, [q.id]: i }))}
+                                                    className={clsx(
+                                                        "flex items-center gap-2 text-left text-sm px-3 py-2 rounded-xl border transition-colors",
+                                                        reveal && i === q.answer
+                                                            ? "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300"
+                                                            : reveal && selected
+                                                                ? "border-red-400 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300"
+                                                                : selected
+                                                                    ? "border-brand-500 bg-brand-50 dark:bg-brand-900/20 text-neutral-900 dark:text-white"
+                                                                    : "border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+                                                    )}
+                                                >
+                                                    <span className="flex-1">{option}</span>
+                                                    {reveal && i === q.answer && <Check size={14} className="shrink-0" />}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex items-center justify-between gap-2 p-4 border-t border-neutral-200 dark:border-neutral-800">
+                            {stage === 'result' ? (
+                                <>
+                                    <p className="text-sm font-medium text-neutral-900 dark:text-white tabular-nums">
+                                        {correct}/{questions.length} correct at {wpm} wpm
+                                    </p>
+                                    <button
+                                        onClick={() => {
+                                            close();
+                                            setIsPlaying(true);
+                                        }}
+                                        className="px-4 py-2 text-sm font-medium rounded-xl bg-brand-500 text-white hover:bg-brand-600 transition-colors"
+                                    >
+                                        Keep reading
+                                    </button>
+                                </>
+                            ) : (
+                                <>
+                                    <p className="text-xs text-neutral-400">
+                                        {Object.keys(answers).length}/{questions.length} answered
+                                    </p>
+                                    <button
+                                        onClick={submit}
+                                        disabled={Object.keys(answers).length < questions.length}
+                                        className="px-4 py-2 text-sm font-medium rounded-xl bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        Submit
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -2,43 +2,28 @@ import React from 'react';
 import { useRSVP } from '@/hooks/useRSVP';
 import { clsx } from 'clsx';
 import { useStore } from '@/store/useStore';
+import { getPhraseAt } from '@/lib/phrases';
+import { getOrpIndex } from '@/lib/orp';
+import { getSentenceBounds } from '@/lib/sentences';
 
-export const Redicle = () => {
-  const { isBlocked, playAudio, isLoading } = useRSVP();
-  const { content, currentIndex, wpm } = useStore();
+interface RedicleProps {
+  isDriver?: boolean; // Only one mounted Redicle may run playback (see useRSVP)
+}
 
-  const currentWord = content[currentIndex] || '';
+export const Redicle = ({ isDriver = true }: RedicleProps) => {
+  const { isBlocked, playAudio, isLoading } = useRSVP(isDriver);
+  const { content, paragraphEnds, sentenceEnds, currentIndex, wpm, displayMode } = useStore();
 
-  // Optimal Recognition Point (ORP)
-  const orpIndex = Math.floor((currentWord.length - 1) / 2);
+  // Phrase mode shows the whole phrase around the current word; with audio on, marks
+  // still move `currentIndex` word by word and the phrase follows along.
+  const phrase = displayMode === 'phrase' ? getPhraseAt(content, currentIndex, paragraphEnds) : null;
+  const currentWord = phrase ? content.slice(phrase.start, phrase.end).join(' ') : content[currentIndex] || '';
 
-  const leftPart = currentWord.slice(0, orpIndex);
-  const pivotChar = currentWord[orpIndex];
-  const rightPart = currentWord.slice(orpIndex + 1);
-
-  // Sentence Progress Logic
-  const getSentenceProgress = () => {
-    if (!content.length) return 0;
-    
-    // Find start (look back for punctuation)
-    let start = currentIndex;
-    while (start > 0 && !/[.?!]/.test(content[start - 1])) {
-        start--;
-    }
-
-    // Find end (look forward for punctuation)
-    let end = currentIndex;
-    while (end < content.length - 1 && !/[.?!]/.test(content[end])) {
-        end++;
-    }
-
-    const total = end - start + 1;
-    const current = currentIndex - start + 1;
-    
-    return Math.min(100, Math.max(0, (current / total) * 100));
-  };
-
-  const sentenceProgress = getSentenceProgress();
+  // Sentence Progress (boundaries come with the document, see lib/sentences)
+  const sentence = getSentenceBounds(sentenceEnds, currentIndex);
+  const sentenceProgress = content.length
+    ? Math.min(100, Math.max(0, ((currentIndex - sentence.start + 1) / (sentence.end - sentence.start)) * 100))
+    : 0;
 
   return (
     <div className="relative flex flex-col items-center justify-center h-64 w-full max-w-3xl mx-auto mb-8">
@@ -65,55 +50,78 @@ export const Redicle = () => {
             </div>
         )}
 
-        {/* Spritz-style Guide Container */}
-        {/* Uses border-foreground to automatically switch Black/White based on theme */}
+        <RedicleDisplay word={currentWord} progress={sentenceProgress} wpm={wpm} />
+    </div>
+  );
+};
+
+interface RedicleDisplayProps {
+  word: string;
+  progress: number; // Sentence progress, 0-100
+  wpm: number;
+}
+
+// The guide frame and ORP-aligned word on its own, so other views (e.g. FlashcardReview) can flash words through it
+export const RedicleDisplay = ({ word, progress, wpm }: RedicleDisplayProps) => {
+  // Optimal Recognition Point (ORP), see lib/orp
+  const orpIndex = getOrpIndex(word);
+
+  const leftPart = word.slice(0, orpIndex);
+  const pivotChar = word[orpIndex];
+  const rightPart = word.slice(orpIndex + 1);
+
+  // Spritz-style Guide Container
+  // Uses border-foreground to automatically switch Black/White based on theme
+  return (
+    <div className={clsx(
+        "relative w-full h-[220px] flex items-center justify-center py-8",
+        "border-y-2 border-foreground transition-colors duration-300"
+    )}>
+        
+        {/* Top Vertical Marker */}
+        <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[2px] h-[40px] md:h-[20px] bg-foreground transition-colors duration-300" />
+        
+        {/* Bottom Vertical Marker */}
+        <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[2px] h-[40px] md:h-[20px] bg-foreground transition-colors duration-300" />
+
+        {/* Word Display */}
         <div className={clsx(
-            "relative w-full h-[220px] flex items-center justify-center py-8",
-            "border-y-2 border-foreground transition-colors duration-300"
+            "flex font-sans tracking-normal relative z-20 select-none w-full px-4 leading-none",
+            word.includes(" ") && word.length > 12 ? "text-4xl sm:text-5xl md:text-6xl" : "text-5xl sm:text-7xl md:text-8xl"
         )}>
+            {/* Left side: forced to 50% width to push pivot to center */}
+            <div className="flex-1 flex justify-end overflow-visible whitespace-nowrap">
+                <span className="text-foreground transition-colors duration-300">
+                    {leftPart}
+                </span>
+            </div>
             
-            {/* Top Vertical Marker */}
-            <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[2px] h-[40px] md:h-[20px] bg-foreground transition-colors duration-300" />
+            {/* Pivot character: exactly in the middle */}
+            <div className="flex-none flex justify-center min-w-[0.7ch] sm:min-w-[0.9ch]">
+                <span className="text-brand-600 font-bold transition-colors duration-300">
+                    {pivotChar}
+                </span>
+            </div>
             
-            {/* Bottom Vertical Marker */}
-            <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[2px] h-[40px] md:h-[20px] bg-foreground transition-colors duration-300" />
-
-            {/* Word Display */}
-            <div className="flex text-5xl sm:text-7xl md:text-8xl font-sans tracking-normal relative z-20 select-none w-full px-4 leading-none">
-                {/* Left side: forced to 50% width to push pivot to center */}
-                <div className="flex-1 flex justify-end overflow-visible whitespace-nowrap">
-                    <span className="text-foreground transition-colors duration-300">
-                        {leftPart}
-                    </span>
-                </div>
-                
-                {/* Pivot character: exactly in the middle */}
-                <div className="flex-none flex justify-center min-w-[0.7ch] sm:min-w-[0.9ch]">
-                    <span className="text-brand-600 font-bold transition-colors duration-300">
-                        {pivotChar}
-                    </span>
-                </div>
-                
-                {/* Right side: flex-1 to balance the left side */}
-                <div className="flex-1 flex justify-start overflow-visible whitespace-nowrap">
-                    <span className="text-foreground transition-colors duration-300">
-                        {rightPart}
-                    </span>
-                </div>
+            {/* Right side: flex-1 to balance the left side */}
+            <div className="flex-1 flex justify-start overflow-visible whitespace-nowrap">
+                <span className="text-foreground transition-colors duration-300">
+                    {rightPart}
+                </span>
             </div>
+        </div>
 
-            {/* Sentence Progress Bar (Responsive Sizing) */}
-            <div className="absolute top-2/3 left-1/2 -translate-x-1/2 rounded-full overflow-hidden mt-8 md:mt-12 w-24 md:w-64 h-1 md:h-1.5 bg-neutral-200 dark:bg-neutral-800 opacity-80">
-                <div 
-                    className="h-full bg-brand-500 transition-all duration-300 ease-out"
-                    style={{ width: `${sentenceProgress}%` }}
-                />
-            </div>
+        {/* Sentence Progress Bar (Responsive Sizing) */}
+        <div className="absolute top-2/3 left-1/2 -translate-x-1/2 rounded-full overflow-hidden mt-8 md:mt-12 w-24 md:w-64 h-1 md:h-1.5 bg-neutral-200 dark:bg-neutral-800 opacity-80">
+            <div 
+                className="h-full bg-brand-500 transition-all duration-300 ease-out"
+                style={{ width: `${progress}%` }}
+            />
+        </div>
 
-            {/* WPM Indicator */}
-            <div className="absolute -bottom-6 right-0 text-xs font-mono text-muted-foreground opacity-60">
-               {wpm} wpm
-            </div>
+        {/* WPM Indicator */}
+        <div className="absolute -bottom-6 right-0 text-xs font-mono text-muted-foreground opacity-60">
+           {wpm} wpm
         </div>
     </div>
   );
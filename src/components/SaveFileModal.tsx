@@ -3,14 +3,14 @@ import { useStore } from '@/store/useStore';
 import { X, FolderPlus } from 'lucide-react';
 
 interface SaveFileModalProps {
-    file: File;
+    defaultName: string; // File name, page title or first words of pasted text
     onSave: (fileName: string, folderId?: string) => void;
     onCancel: () => void;
 }
 
-export const SaveFileModal = ({ file, onSave, onCancel }: SaveFileModalProps) => {
+export const SaveFileModal = ({ defaultName, onSave, onCancel }: SaveFileModalProps) => {
     const { folders, createFolder } = useStore();
-    const [fileName, setFileName] = useState(file.name.replace(/\.[^/.]+$/, "")); // Remove extension
+    const [fileName, setFileName] = useState(defaultName);
     const [selectedFolderId, setSelectedFolderId] = useState<string>('');
     const [isCreatingFolder, setIsCreatingFolder] = useState(false);
     const [newFolderName, setNewFolderName] = useState('');
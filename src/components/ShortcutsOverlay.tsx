@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { HelpCircle, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Monitor, Play } from 'lucide-react';
+import { HelpCircle, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Monitor, Play, Bookmark, Highlighter, Search, Brain, FileText } from 'lucide-react';
 import { clsx } from 'clsx';
 
 export const ShortcutsOverlay = () => {
@@ -76,6 +76,51 @@ export const ShortcutsOverlay = () => {
                     <div className="flex gap-1">
                         <Kbd>F</Kbd>
                     </div>
+
+                    {/* Bookmark */}
+                    <div className="flex items-center gap-2 text-foreground">
+                        <span className="w-5 flex justify-center"><Bookmark size={14} /></span>
+                        <span>Bookmark Word</span>
+                    </div>
+                    <div className="flex gap-1">
+                        <Kbd>B</Kbd>
+                    </div>
+
+                    {/* Highlight */}
+                    <div className="flex items-center gap-2 text-foreground">
+                        <span className="w-5 flex justify-center"><Highlighter size={14} /></span>
+                        <span>Highlight Sentence</span>
+                    </div>
+                    <div className="flex gap-1">
+                        <Kbd>H</Kbd>
+                    </div>
+
+                    {/* Remember */}
+                    <div className="flex items-center gap-2 text-foreground">
+                        <span className="w-5 flex justify-center"><Brain size={14} /></span>
+                        <span>Remember Sentence</span>
+                    </div>
+                    <div className="flex gap-1">
+                        <Kbd>R</Kbd>
+                    </div>
+
+                    {/* Search */}
+                    <div className="flex items-center gap-2 text-foreground">
+                        <span className="w-5 flex justify-center"><Search size={14} /></span>
+                        <span>Search in Document</span>
+                    </div>
+                    <div className="flex gap-1">
+                        <Kbd>/</Kbd>
+                    </div>
+
+                    {/* Page */}
+                    <div className="flex items-center gap-2 text-foreground">
+                        <span className="w-5 flex justify-center"><FileText size={14} /></span>
+                        <span>Go to Page (PDF)</span>
+                    </div>
+                    <div className="flex gap-1">
+                        <Kbd>G</Kbd>
+                    </div>
                 </div>
             </div>
 
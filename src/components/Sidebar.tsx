@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useStore, RecentFile, Folder } from '@/store/useStore';
-import { X, FileText, Trash2, Folder as FolderIcon, FolderOpen, ChevronRight, ChevronDown, Plus, BookOpen, Search } from 'lucide-react';
+import { X, FileText, Trash2, Folder as FolderIcon, FolderOpen, ChevronRight, ChevronDown, Plus, BookOpen, Search, Headphones, MoreHorizontal, FileDown } from 'lucide-react';
 import { clsx } from 'clsx';
+import { LibraryResult, searchLibrary } from '@/lib/library-index';
 
 interface SidebarProps {
     isOpen: boolean;
@@ -15,7 +16,10 @@ const FileItem = ({
     onClose, 
     deleteFile,
     folders,
-    moveFile
+    moveFile,
+    exportAudio,
+    isExporting,
+    exportAnnotations
 }: { 
     file: RecentFile;
     currentFileId: string | null;
@@ -24,6 +28,9 @@ const FileItem = ({
     deleteFile: (id: string) => void;
     folders: Folder[];
     moveFile: (fileId: string, folderId?: string) => void;
+    exportAudio: (file: RecentFile) => void;
+    isExporting: boolean;
+    exportAnnotations: (file: RecentFile, format: 'markdown' | 'json') => void;
 }) => {
     const [isMenuOpen, setIsMenuOpen] = useState(false);
 
@@ -69,7 +76,7 @@ const FileItem = ({
             </div>
             
             <div className="flex items-center gap-0.5 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-all">
-                {/* Move Button */}
+                {/* Actions Menu (move, export) */}
                 <div className="relative">
                     <button 
                         onClick={(e) => {
@@ -80,9 +87,9 @@ const FileItem = ({
                             "p-1.5 rounded-lg transition-colors",
                             isMenuOpen ? "bg-brand-100 text-brand-500" : "hover:bg-neutral-200 dark:hover:bg-neutral-700 text-neutral-400"
                         )}
-                        title="Move to folder"
+                        title="More actions"
                     >
-                        <FolderIcon size={14} />
+                        <MoreHorizontal size={14} />
                     </button>
 
                     {isMenuOpen && (
@@ -121,11 +128,45 @@ const FileItem = ({
                                 {folders.length === 0 || (folders.length === 1 && file.folderId === folders[0].id) && !file.folderId ? (
                                     <p className="px-3 py-4 text-[10px] text-neutral-400 italic text-center">No other folders</p>
                                 ) : null}
+
+                                <p className="px-3 py-1.5 text-[10px] uppercase font-bold text-neutral-400 tracking-wider border-y border-neutral-100 dark:border-neutral-800 my-1">Export highlights</p>
+                                {([
+                                    { format: 'markdown', label: 'Markdown (.md)' },
+                                    { format: 'json', label: 'JSON (.json)' }
+                                ] as const).map(option => (
+                                    <button 
+                                        key={option.format}
+                                        onClick={() => {
+                                            exportAnnotations(file, option.format);
+                                            setIsMenuOpen(false);
+                                        }}
+                                        className="w-full text-left px-3 py-1.5 text-xs hover:bg-neutral-100 dark:hover:bg-neutral-800 text-neutral-600 dark:text-neutral-300 transition-colors flex items-center gap-2"
+                                    >
+                                        <FileDown size={12} className="text-brand-500" />
+                                        {option.label}
+                                    </button>
+                                ))}
                             </div>
                         </>
                     )}
                 </div>
 
+                {/* Export Audio Button */}
+                <button 
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        exportAudio(file);
+                    }}
+                    disabled={isExporting}
+                    className={clsx(
+                        "p-1.5 rounded-lg transition-colors",
+                        isExporting ? "text-brand-500 animate-pulse" : "hover:bg-neutral-200 dark:hover:bg-neutral-700 text-neutral-400"
+                    )}
+                    title={isExporting ? "Exporting audio..." : "Export audio"}
+                >
+                    <Headphones size={14} />
+                </button>
+
                 {/* Delete Button */}
                 <button 
                     onClick={(e) => {
@@ -145,11 +186,12 @@ const FileItem = ({
 };
 
 export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
-    const { recentFiles, folders, createFolder, deleteFolder, deleteFile, loadRecentFile, currentFileId } = useStore();
+    const { recentFiles, isLibraryLoaded, folders, createFolder, deleteFolder, deleteFile, loadRecentFile, currentFileId, startAudioExport, audioExport, exportAnnotations } = useStore();
     const [isCreatingFolder, setIsCreatingFolder] = useState(false);
     const [newFolderName, setNewFolderName] = useState('');
     const [expandedFolders, setExpandedFolders] = useState<Record<string, boolean>>({});
     const [searchQuery, setSearchQuery] = useState('');
+    const [textResults, setTextResults] = useState<LibraryResult[]>([]);
 
     const toggleFolder = (folderId: string) => {
         setExpandedFolders(prev => ({ ...prev, [folderId]: !prev[folderId] }));
@@ -172,6 +214,35 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
         ? recentFiles.filter(f => f.name.toLowerCase().includes(searchQuery.toLowerCase()))
         : [];
 
+    // Full-text results, debounced while typing. Keyed on the file ids: `recentFiles` itself
+    // changes on every word read (progress), which would restart the search during playback.
+    const libraryKey = recentFiles.map(f => f.id).join('|');
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            if (!searchQuery.trim()) {
+                setTextResults([]);
+                return;
+            }
+            searchLibrary(searchQuery, useStore.getState().recentFiles)
+                .then(results => { if (!cancelled) setTextResults(results); })
+                .catch(error => console.error('[Library] Search failed', error));
+        }, 250);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchQuery, libraryKey]);
+
+    const openTextHit = async (file: RecentFile, index: number) => {
+        await loadRecentFile(file);
+        const state = useStore.getState();
+        if (state.currentFileId !== file.id) return; // Content missing
+        state.setCurrentIndex(index);
+        state.setSearchQuery(searchQuery); // Keep the matches highlighted in the reader
+        onClose();
+    };
+
     return (
         <div className={clsx(
             "fixed inset-y-0 left-0 z-[60] w-80 bg-white/80 dark:bg-black/80 backdrop-blur-xl border-r border-neutral-200 dark:border-neutral-800 shadow-2xl transform transition-transform duration-300 ease-in-out flex flex-col",
@@ -196,7 +267,7 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
                     <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
                     <input 
                         type="text"
-                        placeholder="Search PDF..."
+                        placeholder="Search library..."
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         className="w-full pl-9 pr-3 py-2 text-sm bg-neutral-100 dark:bg-neutral-900 border-none rounded-xl focus:ring-2 focus:ring-brand-500/50 outline-none transition-all"
@@ -230,14 +301,47 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
                                  deleteFile={deleteFile}
                                  folders={folders}
                                  moveFile={useStore.getState().moveFile}
+                                 exportAudio={startAudioExport}
+                                 isExporting={audioExport?.fileId === file.id && audioExport.status === 'running'}
+                                 exportAnnotations={exportAnnotations}
                              />
                         ))}
-                         {filteredFiles.length === 0 && (
+                         {filteredFiles.length === 0 && textResults.length === 0 && (
                             <p className="text-sm text-neutral-400 text-center py-8 flex flex-col items-center gap-2">
                                 <Search size={24} className="opacity-20" />
                                 No matching files found
                             </p>
                         )}
+
+                        {/* Full-Text Results */}
+                        {textResults.length > 0 && (
+                            <>
+                                <h3 className="text-xs font-bold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider px-1 pt-4 mb-2">
+                                    In Text ({textResults.reduce((sum, r) => sum + r.total, 0)})
+                                </h3>
+                                {textResults.map(result => (
+                                    <div key={result.file.id} className="rounded-xl bg-neutral-50 dark:bg-neutral-900/50 p-2 space-y-1">
+                                        <div className="flex items-center gap-2 px-1 pb-1">
+                                            <FileText size={12} className="text-brand-500 shrink-0" />
+                                            <span className="text-xs font-medium truncate flex-1 dark:text-white">{result.file.name}</span>
+                                            <span className="text-[10px] text-neutral-400 tabular-nums">{result.total}</span>
+                                        </div>
+                                        {result.hits.map(hit => (
+                                            <button
+                                                key={hit.index}
+                                                onClick={() => openTextHit(result.file, hit.index)}
+                                                className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                                            >
+                                                <p className="text-xs text-neutral-600 dark:text-neutral-300 line-clamp-2">{hit.snippet}</p>
+                                                {hit.chapter && (
+                                                    <p className="text-[10px] text-neutral-400 truncate mt-0.5">{hit.chapter}</p>
+                                                )}
+                                            </button>
+                                        ))}
+                                    </div>
+                                ))}
+                            </>
+                        )}
                     </div>
                 ) : (
                     <>
@@ -316,6 +420,9 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
                                                          deleteFile={deleteFile}
                                                          folders={folders}
                                                          moveFile={useStore.getState().moveFile}
+                                                         exportAudio={startAudioExport}
+                                                         isExporting={audioExport?.fileId === file.id && audioExport.status === 'running'}
+                                                         exportAnnotations={exportAnnotations}
                                                      />
                                                 ))}
                                                 {getFolderFiles(folder.id).length === 0 && (
@@ -344,10 +451,15 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
                                          deleteFile={deleteFile}
                                          folders={folders}
                                          moveFile={useStore.getState().moveFile}
+                                         exportAudio={startAudioExport}
+                                         isExporting={audioExport?.fileId === file.id && audioExport.status === 'running'}
+                                         exportAnnotations={exportAnnotations}
                                      />
                                 ))}
                                 {rootFiles.length === 0 && (
-                                    <p className="text-sm text-neutral-400 text-center py-4">No sorting files</p>
+                                    <p className="text-sm text-neutral-400 text-center py-4">
+                                        {isLibraryLoaded ? 'No sorting files' : 'Loading library...'}
+                                    </p>
                                 )}
                             </div>
                         </div>
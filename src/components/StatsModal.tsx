@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { X, Flame, Clock, Gauge } from 'lucide-react';
+import { useStore } from '@/store/useStore';
+import { loadQuizResults, loadSessions } from '@/lib/document-store';
+import {
+    QuizResult,
+    ReadingSession,
+    effectiveWpm,
+    estimateTimeToFinish,
+    formatDuration,
+    getComprehensionByWpm,
+    getDailyTotals,
+    getMeasuredWpm,
+    getStreak,
+} from '@/lib/reading-stats';
+
+const CHART_DAYS = 14;
+
+interface StatsModalProps {
+    onClose: () => void;
+}
+
+export const StatsModal = ({ onClose }: StatsModalProps) => {
+    const { recentFiles, wpm, quizPrompts, setQuizPrompts } = useStore();
+    const [sessions, setSessions] = useState<ReadingSession[] | null>(null);
+    const [quizzes, setQuizzes] = useState<QuizResult[]>([]);
+
+    useEffect(() => {
+        loadSessions()
+            .then(setSessions)
+            .catch((error) => {
+                console.error('[Stats] Failed to load sessions', error);
+                setSessions([]);
+            });
+        loadQuizResults()
+            .then(setQuizzes)
+            .catch((error) => console.error('[Stats] Failed to load quiz results', error));
+    }, []);
+
+    const daily = sessions ? getDailyTotals(sessions, CHART_DAYS) : [];
+    const today = daily[daily.length - 1];
+    const maxMs = Math.max(1, ...daily.map(d => d.ms));
+    const streak = sessions ? getStreak(sessions) : 0;
+    const measuredWpm = sessions ? getMeasuredWpm(sessions) : null;
+    const unfinished = recentFiles.filter(f => f.progress < f.wordCount - 1);
+    const comprehension = getComprehensionByWpm(quizzes);
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 rounded-2xl shadow-xl overflow-hidden border border-neutral-200 dark:border-neutral-800"
+                onClick={(e) => e.stopPropagation()}
+            >
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-neutral-200 dark:border-neutral-800">
+                    <h2 className="text-lg font-bold text-neutral-900 dark:text-white">Reading Stats</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {!sessions ? (
+                    <div className="p-12 flex justify-center">
+                        <div className="w-6 h-6 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : (
+                    <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+
+                        {/* Summary */}
+                        <div className="grid grid-cols-3 gap-3">
+                            <StatCard icon={<Clock size={14} />} label="Today" value={formatDuration(today?.ms || 0)} detail={`${(today?.words || 0).toLocaleString()} words`} />
+                            <StatCard icon={<Flame size={14} />} label="Streak" value={`${streak} day${streak !== 1 ? 's' : ''}`} detail={streak > 0 ? 'Keep it going' : 'Read today to start'} />
+                            <StatCard icon={<Gauge size={14} />} label="Your pace" value={measuredWpm ? `${measuredWpm} wpm` : '—'} detail={`Set to ${wpm} wpm`} />
+                        </div>
+
+                        {/* Last 14 Days */}
+                        <div>
+                            <h3 className="text-xs font-bold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider mb-3">Last {CHART_DAYS} days</h3>
+                            <div className="flex items-end gap-1 h-24">
+                                {daily.map(day => (
+                                    <div key={day.date} className="flex-1 h-full flex flex-col justify-end group relative">
+                                        <div
+                                            className="w-full rounded-t bg-brand-500/80 group-hover:bg-brand-500 transition-colors min-h-[2px]"
+                                            style={{ height: `${(day.ms / maxMs) * 100}%` }}
+                                        />
+                                        <div className="hidden group-hover:block absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 rounded bg-black/80 text-white text-[10px] whitespace-nowrap z-10">
+                                            {day.date}: {formatDuration(day.ms)}, {day.words.toLocaleString()} words
+                                            {effectiveWpm(day.words, day.ms) && ` (${effectiveWpm(day.words, day.ms)} wpm)`}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex justify-between text-[10px] text-neutral-400 mt-1">
+                                <span>{daily[0]?.date.slice(5)}</span>
+                                <span>{today?.date.slice(5)}</span>
+                            </div>
+                        </div>
+
+                        {/* Time to Finish */}
+                        {unfinished.length > 0 && (
+                            <div>
+                                <h3 className="text-xs font-bold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider mb-2">Time to finish</h3>
+                                <div className="space-y-1">
+                                    {unfinished.map(file => {
+                                        const estimate = estimateTimeToFinish(file, sessions, wpm);
+                                        return (
+                                            <div key={file.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-neutral-50 dark:bg-neutral-800/50">
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm font-medium truncate text-neutral-900 dark:text-white">{file.name}</p>
+                                                    <p className="text-[10px] text-neutral-400">
+                                                        {Math.round((file.progress / file.wordCount) * 100)}% · {estimate.remainingWords.toLocaleString()} words left
+                                                    </p>
+                                                </div>
+                                                <div className="text-right shrink-0">
+                                                    <p className="text-sm font-mono tabular-nums text-neutral-700 dark:text-neutral-200">{formatDuration(estimate.ms)}</p>
+                                                    <p className="text-[10px] text-neutral-400">
+                                                        {estimate.basis === 'book' ? 'your pace in this book' : estimate.basis === 'overall' ? 'your overall pace' : 'at set speed'}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Comprehension */}
+                        <div>
+                            <div className="flex items-center justify-between mb-2">
+                                <h3 className="text-xs font-bold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider">Comprehension</h3>
+                                <label className="flex items-center gap-1.5 text-[10px] text-neutral-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={quizPrompts}
+                                        onChange={(e) => setQuizPrompts(e.target.checked)}
+                                        className="accent-brand-500"
+                                    />
+                                    Quiz after each chapter
+                                </label>
+                            </div>
+                            {comprehension.length === 0 ? (
+                                <p className="text-xs text-neutral-400">Finish a chapter and take its quiz to see how speed affects what you retain.</p>
+                            ) : (
+                                <div className="space-y-1.5">
+                                    {comprehension.map(bucket => (
+                                        <div key={bucket.wpm} className="flex items-center gap-3 text-xs">
+                                            <span className="w-20 shrink-0 font-mono tabular-nums text-neutral-500">{bucket.wpm}+ wpm</span>
+                                            <div className="h-2 flex-1 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden">
+                                                <div className="h-full bg-brand-500 rounded-full" style={{ width: `${bucket.score * 100}%` }} />
+                                            </div>
+                                            <span className="w-24 shrink-0 text-right tabular-nums text-neutral-500">
+                                                {Math.round(bucket.score * 100)}% · {bucket.quizzes} quiz{bucket.quizzes !== 1 ? 'zes' : ''}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {sessions.length === 0 && (
+                            <p className="text-sm text-neutral-400 text-center">Start reading a document to record your first session.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const StatCard = ({ icon, label, value, detail }: { icon: React.ReactNode; label: string; value: string; detail: string }) => (
+    <div className="p-3 rounded-xl bg-neutral-50 dark:bg-neutral-800/50">
+        <div className="flex items-center gap-1.5 text-[10px] uppercase font-bold tracking-wider text-neutral-400">
+            <span className="text-brand-500">{icon}</span>
+            {label}
+        </div>
+        <p className="text-lg font-bold mt-1 text-neutral-900 dark:text-white tabular-nums">{value}</p>
+        <p className="text-[10px] text-neutral-400 truncate">{detail}</p>
+    </div>
+);
@@ -1,17 +1,22 @@
 import React, { useState } from 'react';
 import { useStore } from '@/store/useStore';
-import { ChevronRight, Clock, List } from 'lucide-react';
+import { Bookmark, ChevronRight, Clock, List } from 'lucide-react';
 import { clsx } from 'clsx';
+import { getRangeDuration, getTimingModel } from '@/lib/timing';
+import { AnnotationList } from './AnnotationList';
 
 export const TableOfContents = () => {
-    const { chapters, currentIndex, setCurrentIndex, wpm, content } = useStore();
+    const { chapters, currentIndex, setCurrentIndex, wpm, content, paragraphEnds, annotations } = useStore();
     const [isOpen, setIsOpen] = useState(true);
+    const [tab, setTab] = useState<'contents' | 'annotations'>('contents');
 
     if (!chapters || chapters.length === 0) return null;
 
-    // Helper to format time
-    const formatTime = (words: number) => {
-        const minutes = Math.ceil(words / wpm);
+    const timing = getTimingModel(content, paragraphEnds);
+
+    // Helper to format time (adaptive timing, so dense chapters read longer)
+    const formatTime = (start: number, wordCount: number) => {
+        const minutes = Math.ceil(getRangeDuration(timing, start, start + wordCount, wpm) / 60000);
         if (minutes < 1) return '< 1 min';
         if (minutes > 60) {
             const hrs = Math.floor(minutes / 60);
@@ -21,8 +26,7 @@ export const TableOfContents = () => {
         return `${minutes} min`;
     };
 
-    const totalWords = chapters.reduce((acc, curr) => acc + curr.wordCount, 0);
-    const totalTime = formatTime(totalWords);
+    const totalTime = formatTime(0, content.length);
 
     // Find current chapter
     const currentChapterIndex = chapters.findIndex((chapter, i) => {
@@ -52,26 +56,46 @@ export const TableOfContents = () => {
                     
                     {/* Header */}
                     <div className="p-4 border-b border-neutral-200 dark:border-neutral-800 flex items-center justify-between bg-neutral-50/50 dark:bg-neutral-900/50">
-                        <h3 className="font-semibold text-sm flex items-center gap-2">
-                            <List size={16} className="text-brand-500" />
-                            Contents ({totalTime})
-                        </h3>
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={() => setTab('contents')}
+                                title={`${chapters.length} Section${chapters.length !== 1 ? 's' : ''}`}
+                                className={clsx(
+                                    "font-semibold text-sm flex items-center gap-2 transition-colors",
+                                    tab !== 'contents' && "text-neutral-400 hover:text-foreground"
+                                )}
+                            >
+                                <List size={16} className={clsx(tab === 'contents' && "text-brand-500")} />
+                                {tab === 'contents' ? `Contents (${totalTime})` : 'Contents'}
+                            </button>
+                            <button
+                                onClick={() => setTab('annotations')}
+                                className={clsx(
+                                    "font-semibold text-sm flex items-center gap-2 transition-colors",
+                                    tab !== 'annotations' && "text-neutral-400 hover:text-foreground"
+                                )}
+                            >
+                                <Bookmark size={16} className={clsx(tab === 'annotations' && "text-brand-500")} />
+                                Notes{annotations.length > 0 && ` (${annotations.length})`}
+                            </button>
+                        </div>
                         <button 
                             onClick={() => setIsOpen(false)}
                             className="md:hidden p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded-full"
                         >
                             <ChevronRight size={18} className="rotate-90" />
                         </button>
-                        <div className="hidden md:block text-xs text-neutral-400">
-                            {chapters.length} Section{chapters.length !== 1 ? 's' : ''}
-                        </div>
                     </div>
 
                     {/* List */}
                     <div className="overflow-y-auto p-2 space-y-1 custom-scrollbar">
-                        {chapters.map((chapter, i) => {
+                        {tab === 'annotations' && (
+                            <AnnotationList onNavigate={() => { if (window.innerWidth < 768) setIsOpen(false); }} />
+                        )}
+                        {tab === 'contents' && chapters.map((chapter, i) => {
                             const isActive = i === currentChapterIndex;
                             const isPast = i < currentChapterIndex;
+                            const level = Math.min(chapter.level || 0, 3);
                             
                             return (
                                 <button
@@ -80,6 +104,7 @@ export const TableOfContents = () => {
                                         setCurrentIndex(chapter.startIndex);
                                         if (window.innerWidth < 768) setIsOpen(false);
                                     }}
+                                    style={level > 0 ? { paddingLeft: `${0.75 + level * 0.875}rem` } : undefined}
                                     className={clsx(
                                         "w-full text-left p-3 rounded-xl transition-all duration-200 group relative",
                                         isActive 
@@ -91,17 +116,21 @@ export const TableOfContents = () => {
                                 >
                                     <div className="flex justify-between items-start">
                                         <span className={clsx(
-                                            "text-sm font-medium line-clamp-2",
+                                            "font-medium line-clamp-2",
+                                            level > 0 ? "text-xs" : "text-sm",
                                             isActive && "font-bold"
                                         )}>
                                             {chapter.title}
                                         </span>
                                     </div>
                                     <div className="flex items-center gap-3 mt-1.5">
-                                        <div className="flex items-center gap-1 text-[10px] opacity-70">
-                                            <Clock size={10} />
-                                            {formatTime(chapter.wordCount)}
-                                        </div>
+                                        {/* Parts that open straight onto their first chapter have no text of their own */}
+                                        {chapter.wordCount > 0 && (
+                                            <div className="flex items-center gap-1 text-[10px] opacity-70">
+                                                <Clock size={10} />
+                                                {formatTime(chapter.startIndex, chapter.wordCount)}
+                                            </div>
+                                        )}
                                         {isActive && (
                                             <div className="text-[10px] text-brand-500 font-medium ml-auto animate-pulse">
                                                 Reading...
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Languages, Search } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '@/store/useStore';
+import { FALLBACK_VOICES, TtsVoice } from '@/lib/voices';
+
+// Fetched once per page load and shared by every picker
+let voicesPromise: Promise<TtsVoice[]> | null = null;
+
+const loadVoices = (): Promise<TtsVoice[]> => {
+    if (!voicesPromise) {
+        voicesPromise = fetch('/api/tts/voices')
+            .then(res => res.json())
+            .then(data => (Array.isArray(data.voices) && data.voices.length > 0 ? data.voices : FALLBACK_VOICES))
+            .catch(() => FALLBACK_VOICES);
+    }
+    return voicesPromise;
+};
+
+const languageName = (code: string) => {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+    } catch {
+        return code;
+    }
+};
+
+interface VoicePickerProps {
+    size?: number; // Icon size, matching the surrounding buttons
+    className?: string;
+}
+
+export const VoicePicker = ({ size = 18, className }: VoicePickerProps) => {
+    const { voice, setVoice, autoVoice, setAutoVoice, documentLanguage, getActiveVoice } = useStore();
+    const [isOpen, setIsOpen] = useState(false);
+    const [voices, setVoices] = useState<TtsVoice[]>(FALLBACK_VOICES);
+    const [query, setQuery] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        loadVoices().then(list => { if (!cancelled) setVoices(list); });
+        return () => { cancelled = true; };
+    }, [isOpen]);
+
+    const activeVoice = getActiveVoice();
+
+    const filtered = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        if (!q) return voices;
+        return voices.filter(v =>
+            v.name.toLowerCase().includes(q) ||
+            v.locale.toLowerCase().includes(q) ||
+            languageName(v.locale.split('-')[0]).toLowerCase().includes(q)
+        );
+    }, [voices, query]);
+
+    return (
+        <div className={clsx("relative", className)}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    "rounded-full transition-all",
+                    size > 20 ? "p-4" : "p-2 sm:p-3",
+                    isOpen ? "text-brand-500 bg-brand-50 dark:bg-brand-900/20" : "text-muted-foreground hover:text-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                )}
+                title={`Voice: ${activeVoice}`}
+                aria-label="Choose voice"
+            >
+                <Languages size={size} />
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                    <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-72 bg-white/95 dark:bg-black/90 backdrop-blur-xl border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl z-50 overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+                        {/* Auto Language */}
+                        <label className="flex items-center gap-3 px-4 py-3 border-b border-neutral-200 dark:border-neutral-800 cursor-pointer text-sm">
+                            <input
+                                type="checkbox"
+                                checked={autoVoice}
+                                onChange={(e) => setAutoVoice(e.target.checked)}
+                                className="accent-brand-500"
+                            />
+                            <span className="flex-1">Match document language</span>
+                            {documentLanguage && (
+                                <span className="text-xs text-neutral-400">{languageName(documentLanguage)}</span>
+                            )}
+                        </label>
+
+                        {/* Search */}
+                        <div className="relative px-3 pt-3">
+                            <Search size={14} className="absolute left-6 top-1/2 translate-y-[calc(-50%+6px)] text-neutral-400" />
+                            <input
+                                type="text"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder="Search voices..."
+                                className="w-full pl-8 pr-3 py-1.5 text-sm bg-neutral-100 dark:bg-neutral-900 rounded-lg outline-none focus:ring-2 focus:ring-brand-500/50"
+                            />
+                        </div>
+
+                        {/* List */}
+                        <div className="max-h-64 overflow-y-auto p-2 custom-scrollbar">
+                            {filtered.map(v => (
+                                <button
+                                    key={v.id}
+                                    onClick={() => {
+                                        setVoice(v.id);
+                                        setIsOpen(false);
+                                    }}
+                                    className={clsx(
+                                        "w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors",
+                                        v.id === voice
+                                            ? "bg-neutral-100 dark:bg-neutral-800 text-foreground"
+                                            : "text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-900"
+                                    )}
+                                >
+                                    <span className="flex-1 truncate">{v.name}</span>
+                                    <span className="text-[10px] font-mono text-neutral-400">{v.locale}</span>
+                                    {v.id === voice && <Check size={14} className="opacity-50" />}
+                                </button>
+                            ))}
+                            {filtered.length === 0 && (
+                                <p className="px-3 py-4 text-xs text-neutral-400 text-center">No matching voices</p>
+                            )}
+                        </div>
+
+                        {autoVoice && activeVoice !== voice && (
+                            <p className="px-4 py-2 text-[11px] text-neutral-400 border-t border-neutral-200 dark:border-neutral-800">
+                                Using {activeVoice} for this document
+                            </p>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useStore } from '@/store/useStore';
+import { MIN_QUIZ_WORDS, generateQuiz } from '@/lib/quiz';
+
+const MAX_STEP = 5; // Larger jumps are seeks, not finishing a chapter
+
+// Pauses and queues a quiz prompt when playback reaches the last word of a chapter.
+// Mount once; the prompt itself is QuizModal.
+export const useChapterQuiz = () => {
+    useEffect(() => {
+        return useStore.subscribe((state, prev) => {
+            if (!prev.isPlaying || !state.quizPrompts || state.pendingQuiz) return;
+            if (!state.currentFileId || state.currentFileId === 'demo' || state.currentFileId !== prev.currentFileId) return;
+
+            const step = state.currentIndex - prev.currentIndex;
+            if (step <= 0 || step > MAX_STEP) return;
+
+            const chapter = [...state.chapters].reverse().find(c => c.startIndex <= prev.currentIndex);
+            if (!chapter || chapter.wordCount < MIN_QUIZ_WORDS) return;
+
+            const lastIndex = chapter.startIndex + chapter.wordCount - 1;
+            if (prev.currentIndex >= lastIndex || state.currentIndex < lastIndex) return;
+
+            // Chapters without usable sentences (lists, tables) get no prompt
+            const words = state.content.slice(chapter.startIndex, lastIndex + 1);
+            if (generateQuiz(words, chapter.startIndex).length > 0) {
+                state.setIsPlaying(false);
+                state.setPendingQuiz({ fileId: state.currentFileId, chapter });
+            }
+        });
+    }, []);
+};
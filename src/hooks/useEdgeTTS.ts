@@ -1,12 +1,23 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useSyncExternalStore } from 'react';
 import { useStore } from '@/store/useStore';
+import { WordMark } from '@/lib/tts-marks';
+import { getSynthRate } from '@/lib/speech-rate';
 
-// ... (imports)
+export type { WordMark };
 
-export interface WordMark {
-    word: string;
-    start: number;
-    end: number;
+export interface AudioChunk {
+    url: string; // Object URL of the decoded mp3
+    marks: WordMark[];
+    rate: number; // Synthesizer rate the audio was generated at
+}
+
+// 'cancelled' = reset() happened while waiting (seek or file change), not an error
+export type ChunkResult = 'played' | 'failed' | 'cancelled';
+
+interface QueueEntry {
+    promise: Promise<AudioChunk | null>;
+    chunk: AudioChunk | null; // Set once decoded
+    controller: AbortController;
 }
 
 export interface EdgeTTSState {
@@ -18,7 +29,8 @@ export interface EdgeTTSState {
     pause: () => void;
     stop: () => void;
     seek: (time: number) => void;
-    fetchAudio: (text: string) => Promise<boolean>;
+    prefetchChunk: (offset: number, words: string[]) => void;
+    playChunk: (offset: number, words: string[]) => Promise<ChunkResult>;
     reset: () => void;
     setRate: (rate: number) => void;
     audioElement: HTMLAudioElement | null;
@@ -27,25 +39,139 @@ export interface EdgeTTSState {
     isBlocked: boolean;
 }
 
+// Playback Queue: chunk start index -> pending/decoded audio.
+// Chunks ahead of the current one are fetched while it plays, so `playChunk` can switch instantly.
+// Module-level like the audio element itself, so every driver instance shares one queue.
+const chunkQueue = new Map<number, QueueEntry>();
+// Bumped by reset(): responses from an older generation are dropped (seek / file change mid-flight)
+let queueGeneration = 0;
+
+// Client Cache: decoded chunks survive reset() (seeks, rewinds, reopening a file).
+// Keyed by the request body; Map insertion order doubles as LRU order.
+const blobCache = new Map<string, { blob: Blob, marks: WordMark[], rate: number }>();
+const BLOB_CACHE_LIMIT = 40; // ~40 x 60 words, a few MB of mp3
+
+const cacheBlob = (key: string, blob: Blob, marks: WordMark[], rate: number) => {
+    blobCache.delete(key);
+    blobCache.set(key, { blob, marks, rate });
+    while (blobCache.size > BLOB_CACHE_LIMIT) {
+        blobCache.delete(blobCache.keys().next().value!);
+    }
+};
+
+// Loading / blocked state of the shared audio element. Module-level like the queue, so passive
+// views (the fullscreen Redicle) show what the driving instance is waiting on.
+interface PlaybackStatus {
+    isLoading: boolean;
+    isBlocked: boolean; // Autoplay was refused; needs a user gesture
+}
+
+const IDLE_STATUS: PlaybackStatus = { isLoading: false, isBlocked: false };
+let playbackStatus = IDLE_STATUS;
+const statusListeners = new Set<() => void>();
+
+const setPlaybackStatus = (patch: Partial<PlaybackStatus>) => {
+    const next = { ...playbackStatus, ...patch };
+    if (next.isLoading === playbackStatus.isLoading && next.isBlocked === playbackStatus.isBlocked) return;
+    playbackStatus = next;
+    statusListeners.forEach(listener => listener());
+};
+
+const subscribeStatus = (listener: () => void) => {
+    statusListeners.add(listener);
+    return () => { statusListeners.delete(listener); };
+};
+
+// Playback Speed: the requested speed (multiple of the voice's normal pace) and the rate the
+// playing chunk was synthesized at. The audio element only plays the ratio between the two.
+let targetSpeed = 1;
+let playingChunkRate = 1;
+
+const applyPlaybackRate = (el: HTMLAudioElement) => {
+    // Clamp between 0.5 and 2.5 (browsers vary, but safe range)
+    const rate = Math.max(0.5, Math.min(targetSpeed / playingChunkRate, 2.5));
+    // Loading a new chunk resets playbackRate to defaultPlaybackRate, so set both
+    el.defaultPlaybackRate = rate;
+    el.playbackRate = rate;
+};
+
+const releaseEntry = (entry: QueueEntry) => {
+    entry.controller.abort();
+    if (entry.chunk) URL.revokeObjectURL(entry.chunk.url);
+};
+
+// One entry per display word: the server returns one mark per entry.
+// Synthesized at the current WPM; playbackRate only corrects the remainder (see setRate).
+const fetchAudio = async (words: string[], controller: AbortController): Promise<AudioChunk> => {
+    const { getActiveVoice, wpm } = useStore.getState();
+    const voice = getActiveVoice();
+    const rate = getSynthRate(wpm);
+    const body = JSON.stringify({ words, voice, rate });
+
+    const hit = blobCache.get(body);
+    if (hit) {
+        cacheBlob(body, hit.blob, hit.marks, hit.rate); // Refresh LRU position
+        // Fresh URL per use: queue entries revoke theirs when released
+        return { url: URL.createObjectURL(hit.blob), marks: hit.marks, rate: hit.rate };
+    }
+
+    const timeoutId = setTimeout(() => controller.abort(), 25000); // 25s timeout (Vercel Cold Starts)
+
+    try {
+        const response = await fetch('/api/tts', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            signal: controller.signal
+        });
+
+        if (!response.ok) {
+             const errorText = await response.text();
+             throw new Error(`Server returned ${response.status}: ${errorText}`);
+        }
+
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        if (!data.audio) throw new Error('No audio in response');
+
+        // Decode Audio
+        const binaryString = window.atob(data.audio);
+        const bytes = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+        
+        const blob = new Blob([bytes], { type: 'audio/mpeg' }); // Correct MIME
+
+        if (!data.marks) console.warn("TTS: Audio received but no marks found.");
+        const marks: WordMark[] = data.marks || []; // Ensure it's empty, not undefined
+
+        cacheBlob(body, blob, marks, rate);
+
+        return {
+            url: URL.createObjectURL(blob),
+            marks,
+            rate
+        };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
 export const useEdgeTTS = (): EdgeTTSState => {
     const [audioUrl, setAudioUrl] = useState<string | null>(null);
     const [marks, setMarks] = useState<WordMark[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [currentTime, setCurrentTime] = useState(0);
     const [duration, setDuration] = useState(0);
-    const [isBlocked, setIsBlocked] = useState(false);
+    const { isLoading, isBlocked } = useSyncExternalStore(subscribeStatus, () => playbackStatus, () => IDLE_STATUS);
     
-    // Use Singleton Audio from Store
-    const audioRef = useRef<HTMLAudioElement | null>(null);
+    // Use Singleton Audio from Store (null during SSR)
+    const [audioElement] = useState<HTMLAudioElement | null>(() => useStore.getState().getAudioElement());
+    const audioRef = useRef<HTMLAudioElement | null>(audioElement);
 
     useEffect(() => {
         if (typeof window !== 'undefined') {
-            // Get Singleton
-            const el = useStore.getState().getAudioElement();
+            const el = audioElement;
             if (el) {
-                audioRef.current = el;
-                
                 // Add Listeners
                 const updateTime = () => setCurrentTime(el.currentTime || 0);
                 const updateDuration = () => setDuration(el.duration || 0);
@@ -60,14 +186,18 @@ export const useEdgeTTS = (): EdgeTTSState => {
                 }
             }
         }
-    }, []);
+    }, [audioElement]);
 
-    // New: Explicit Reset to clear stale audio
+    // New: Explicit Reset to clear stale audio (and everything queued)
     const reset = useCallback(() => {
+        queueGeneration++;
+        chunkQueue.forEach(releaseEntry);
+        chunkQueue.clear();
+
         setAudioUrl(null);
         setMarks([]);
         setError(null);
-        setIsLoading(false);
+        setPlaybackStatus({ isLoading: false });
         if (audioRef.current) {
              audioRef.current.pause();
              audioRef.current.removeAttribute('src'); // Helper
@@ -76,85 +206,90 @@ export const useEdgeTTS = (): EdgeTTSState => {
         }
     }, []);
 
-    // Modified: No 'rate' param needed for fetch
-    const fetchAudio = useCallback(async (text: string) => {
-        if (!text.trim()) return false;
+    // Start fetching a chunk without playing it. No-op if already queued.
+    const prefetchChunk = useCallback((offset: number, words: string[]) => {
+        if (chunkQueue.has(offset) || !words.some(w => w.trim())) return;
 
-        // Reset before fetching new
-        reset(); 
-
-        setIsLoading(true);
-        setError(null);
-        
+        const generation = queueGeneration;
         const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 25000); // 25s timeout (Vercel Cold Starts)
-
-        try {
-            const response = await fetch('/api/tts', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ text }), // No rate
-                signal: controller.signal
-            });
-
-            if (!response.ok) {
-                 const errorText = await response.text();
-                 throw new Error(`Server returned ${response.status}: ${errorText}`);
-            }
+        const entry: QueueEntry = { controller, chunk: null, promise: Promise.resolve(null) };
 
-            const data = await response.json();
-            if (data.error) throw new Error(data.error);
-
-            if (data.audio) {
-                // Decode Audio
-                const binaryString = window.atob(data.audio);
-                const bytes = new Uint8Array(binaryString.length);
-                for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-                
-                const blob = new Blob([bytes], { type: 'audio/mpeg' }); // Correct MIME
-                const url = URL.createObjectURL(blob);
-
-                setAudioUrl(url);
-                if (data.marks) {
-                    setMarks(data.marks);
-                } else {
-                    console.warn("TTS: Audio received but no marks found.");
-                    setMarks([]); // Ensure it's empty, not undefined
+        entry.promise = fetchAudio(words, controller)
+            .then(chunk => {
+                if (generation !== queueGeneration) {
+                    URL.revokeObjectURL(chunk.url);
+                    return null;
                 }
+                entry.chunk = chunk;
+                return chunk;
+            })
+            .catch((err: unknown) => {
+                if (generation !== queueGeneration) return null;
 
-                if (audioRef.current) {
-                    audioRef.current.src = url;
-                    audioRef.current.load();
+                let errorMessage = 'An unexpected error occurred';
+                if (err instanceof Error) {
+                    if (err.name === 'AbortError') {
+                        errorMessage = 'TTS Timeout';
+                    } else {
+                        errorMessage = err.message;
+                    }
+                } else if (typeof err === 'string') {
+                    errorMessage = err;
                 }
+
+                setError(errorMessage);
+                console.error("TTS Critical Failure:", errorMessage);
+                chunkQueue.delete(offset); // Allow a retry
+                return null;
+            });
+
+        chunkQueue.set(offset, entry);
+    }, []);
+
+    // Switch the audio element to a chunk (fetching it first if it wasn't prefetched) and play.
+    const playChunk = useCallback(async (offset: number, words: string[]): Promise<ChunkResult> => {
+        const generation = queueGeneration;
+
+        prefetchChunk(offset, words);
+        const entry = chunkQueue.get(offset);
+        if (!entry) return 'failed';
+
+        // Only show the spinner when we actually have to wait
+        if (!entry.chunk) setPlaybackStatus({ isLoading: true });
+        const chunk = await entry.promise;
+        if (generation !== queueGeneration) return 'cancelled';
+        setPlaybackStatus({ isLoading: false });
+
+        if (!chunk) return 'failed';
+
+        // Release chunks that are behind us
+        chunkQueue.forEach((other, key) => {
+            if (key < offset) {
+                releaseEntry(other);
+                chunkQueue.delete(key);
             }
-        } catch (err: unknown) {
-            let errorMessage = 'An unexpected error occurred';
-            if (err instanceof Error) {
-                if (err.name === 'AbortError') {
-                    errorMessage = 'TTS Timeout';
-                } else {
-                    errorMessage = err.message;
-                }
-            } else if (typeof err === 'string') {
-                errorMessage = err;
-            }
-            
-            setError(errorMessage);
-            console.error("TTS Critical Failure:", errorMessage);
-            // console.warn("Disabling audio due to error."); // Removed this line as per instruction
-            return false;
-        } finally {
-            clearTimeout(timeoutId);
-            setIsLoading(false);
+        });
+
+        setAudioUrl(chunk.url);
+        setMarks(chunk.marks);
+        setError(null);
+
+        if (audioRef.current) {
+            playingChunkRate = chunk.rate;
+            audioRef.current.src = chunk.url;
+            applyPlaybackRate(audioRef.current);
+            audioRef.current.play().catch(e => {
+                if (e.name === 'NotAllowedError') setPlaybackStatus({ isBlocked: true });
+            }).then(() => setPlaybackStatus({ isBlocked: false }));
         }
-        return true;
-    }, [reset]);
+        return 'played';
+    }, [prefetchChunk]);
 
     const play = useCallback(() => {
         if (audioRef.current) {
              audioRef.current.play().catch(e => {
-                 if (e.name === 'NotAllowedError') setIsBlocked(true);
-             }).then(() => setIsBlocked(false));
+                 if (e.name === 'NotAllowedError') setPlaybackStatus({ isBlocked: true });
+             }).then(() => setPlaybackStatus({ isBlocked: false }));
         }
     }, []);
 
@@ -169,17 +304,16 @@ export const useEdgeTTS = (): EdgeTTSState => {
         if (audioRef.current) audioRef.current.currentTime = time;
     }, []);
     
-    // New: Control Playback Rate (Speed)
+    // Control Speed: `rate` is relative to the voice's normal pace (wpm / BASE_SPEECH_WPM).
+    // Chunks fetched from now on are synthesized at it; already queued ones are corrected by playbackRate.
     const setRate = useCallback((rate: number) => {
-        if (audioRef.current) {
-            // Clamp between 0.5 and 2.0 (browsers vary, but safe range)
-            audioRef.current.playbackRate = Math.max(0.5, Math.min(rate, 2.5));
-        }
+        targetSpeed = rate;
+        if (audioRef.current) applyPlaybackRate(audioRef.current);
     }, []);
 
     return {
-        fetchAudio, play, pause, stop, seek, reset, setRate,
-        audioElement: audioRef.current,
+        prefetchChunk, playChunk, play, pause, stop, seek, reset, setRate,
+        audioElement,
         isLoading, error, audioUrl, marks,
         currentTime, duration, isBlocked
     };
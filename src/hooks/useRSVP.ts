@@ -1,38 +1,52 @@
 import { useEffect, useRef } from 'react';
 import { useStore } from '@/store/useStore';
 import { useEdgeTTS } from './useEdgeTTS';
+import { getRangeDuration, getTimingModel, getWordDelay } from '@/lib/timing';
+import { getPhraseAt } from '@/lib/phrases';
+import { BASE_SPEECH_WPM } from '@/lib/speech-rate';
 
 const CHUNK_SIZE = 60; // Drastically reduced to 60 to prevent EdgeTTS Timeouts completely.
+const PREFETCH_AHEAD = 2; // Chunks fetched in the background while the current one plays
+
+// Words sent to TTS for the chunk starting at `start`.
+// Remove punctuation to prevent TTS from pausing (Constant Speed).
+// Done per word so slot i still matches content[start + i] for mark sync.
+const getChunkWords = (content: string[], start: number) =>
+    content.slice(start, start + CHUNK_SIZE).map(w => w.replace(/[.?!,;:]/g, ""));
 
 export const useRSVP = (isDriver: boolean = true) => {
   const content = useStore(state => state.content);
+  const paragraphEnds = useStore(state => state.paragraphEnds);
   const wpm = useStore(state => state.wpm);
   const isPlaying = useStore(state => state.isPlaying);
   const currentIndex = useStore(state => state.currentIndex);
   const setCurrentIndex = useStore(state => state.setCurrentIndex);
   const setIsPlaying = useStore(state => state.setIsPlaying);
   const isAudioEnabled = useStore(state => state.isAudioEnabled);
+  const displayMode = useStore(state => state.displayMode);
   const currentFileId = useStore(state => state.currentFileId); 
+  const activeVoice = useStore(state => state.getActiveVoice());
   
   const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const { fetchAudio, play, pause, stop, currentTime, duration, isLoading, marks, audioElement, isBlocked, reset, setRate } = useEdgeTTS();
+  const { prefetchChunk, playChunk, play, pause, stop, currentTime, duration, isLoading, marks, audioElement, isBlocked, reset, setRate } = useEdgeTTS();
   
-  const audioStartedRef = useRef(false);
+  const audioStartedRef = useRef(false); // A chunk is playing or being started
   const audioOffsetRef = useRef(0); 
+  const lastSyncedIndexRef = useRef(-1); // Last index set by audio itself; anything else is a seek
 
-  // 1. RESET LOGIC: Force cleanup on file/content change
+  // 1. RESET LOGIC: Force cleanup on file/content/voice change
+  // (queued chunks were synthesized with the old voice)
   useEffect(() => {
       if (!isDriver) return;
       audioStartedRef.current = false;
       audioOffsetRef.current = useStore.getState().currentIndex; 
       reset(); 
-  }, [currentFileId, content, reset, isDriver]); 
+  }, [currentFileId, content, activeVoice, reset, isDriver]); 
 
-  // 2. RATE SYNC: Keep playback rate tied to WPM
+  // 2. RATE SYNC: Keep speech speed tied to WPM
   useEffect(() => {
       if (isAudioEnabled) {
-          const playbackRate = wpm / 150; 
-          setRate(playbackRate);
+          setRate(wpm / BASE_SPEECH_WPM);
       }
   }, [wpm, isAudioEnabled, setRate]);
 
@@ -47,34 +61,39 @@ export const useRSVP = (isDriver: boolean = true) => {
     }
 
     if (isAudioEnabled) {
+        // 0. Seek: the index moved without audio moving it (seekByTime, TOC, smart rewind...).
+        // Drop the queue; the new position starts a fresh chunk below.
+        if (audioStartedRef.current && currentIndex !== lastSyncedIndexRef.current) {
+            audioStartedRef.current = false;
+            reset();
+        }
+
         // A. Start New Chunk if needed
         if (!audioStartedRef.current && !isLoading) {
+            audioStartedRef.current = true;
             audioOffsetRef.current = currentIndex;
-            
-            // Calculate chunk
-            const rawText = content.slice(currentIndex, currentIndex + CHUNK_SIZE).join(" ");
-            
-            // Remove punctuation to prevent TTS from pausing (Constant Speed)
-            const text = rawText.replace(/[.?!,;:]/g, " ");
-            
-            console.log(`[RSVP] Fetching chunk: Index ${currentIndex} to ${currentIndex + CHUNK_SIZE}`);
-            
-            fetchAudio(text).then((success) => {
-                if (success) {
-                    audioStartedRef.current = true;
-                    play(); 
-                } else {
+            lastSyncedIndexRef.current = currentIndex;
+
+            playChunk(currentIndex, getChunkWords(content, currentIndex)).then((result) => {
+                if (result === 'failed') {
+                    audioStartedRef.current = false;
                     console.warn("[RSVP] Audio fetch failed. Disabling audio.");
                     useStore.getState().toggleAudio();
                 }
             });
+
+            // Queue the following chunks while this one plays
+            for (let i = 1; i <= PREFETCH_AHEAD; i++) {
+                const ahead = currentIndex + i * CHUNK_SIZE;
+                if (ahead < content.length) prefetchChunk(ahead, getChunkWords(content, ahead));
+            }
         } 
         // B. Resume existing audio if paused (and we are in "playing" state)
         else if (audioStartedRef.current && audioElement?.paused && !isLoading && !audioElement.ended) {
             play();
         }
     }
-  }, [isDriver, isPlaying, currentIndex, isAudioEnabled, isLoading, content, fetchAudio, play, pause, audioElement]);
+  }, [isDriver, isPlaying, currentIndex, isAudioEnabled, isLoading, content, playChunk, prefetchChunk, reset, play, pause, audioElement]);
 
 
   // 4. SYNC LOGIC (AUDIO DRIVER)
@@ -116,6 +135,7 @@ export const useRSVP = (isDriver: boolean = true) => {
               
               // Only update if changed and valid
               if (absoluteIndex !== storeIndex && absoluteIndex < content.length) {
+                   lastSyncedIndexRef.current = absoluteIndex;
                    setCurrentIndex(absoluteIndex);
               }
           }
@@ -138,12 +158,17 @@ export const useRSVP = (isDriver: boolean = true) => {
 
     if (!isPlaying || currentIndex >= content.length) return;
 
-    // Constant Speed Logic (User Request)
-    const delay = 60000 / wpm;
+    // Adaptive Speed: weighted per word (with a pause at paragraph ends), averaging out to `wpm` over the document.
+    // In phrase mode the whole phrase stays up for the combined time of its words.
+    const model = getTimingModel(content, paragraphEnds);
+    const nextIndex = displayMode === 'phrase' ? getPhraseAt(content, currentIndex, paragraphEnds).end : currentIndex + 1;
+    const delay = displayMode === 'phrase'
+        ? getRangeDuration(model, currentIndex, nextIndex, wpm)
+        : getWordDelay(model, currentIndex, wpm);
 
     timerRef.current = setTimeout(() => {
-        if (currentIndex + 1 < content.length) {
-            setCurrentIndex(currentIndex + 1);
+        if (nextIndex < content.length) {
+            setCurrentIndex(nextIndex);
         } else {
             setIsPlaying(false);
         }
@@ -152,28 +177,39 @@ export const useRSVP = (isDriver: boolean = true) => {
     return () => {
         if (timerRef.current) clearTimeout(timerRef.current);
     };
-  }, [isDriver, isPlaying, currentIndex, isAudioEnabled, wpm, content, setCurrentIndex, setIsPlaying]);
+  }, [isDriver, isPlaying, currentIndex, isAudioEnabled, wpm, content, paragraphEnds, displayMode, setCurrentIndex, setIsPlaying]);
 
-  // 6. AUDIO CHAINING (Chunk bridging)
+  // 6. AUDIO CHAINING (Gapless chunk bridging)
   useEffect(() => {
       const handleEnded = () => {
-          if (!isPlaying || !isAudioEnabled) return;
-          
-          console.log("[RSVP] Audio chunk ended. Preparing next...");
-          
+          if (!isDriver || !isPlaying || !isAudioEnabled) return;
+
           // Calculate where the next chunk SHOULD start
           const nextChunkStart = audioOffsetRef.current + CHUNK_SIZE; // e.g. 0 + 250 = 250
+          const words = useStore.getState().content;
           
-          if (nextChunkStart < content.length) {
+          if (nextChunkStart < words.length) {
               // Move index to start of next chunk (ensure we don't drift)
+              audioOffsetRef.current = nextChunkStart;
+              lastSyncedIndexRef.current = nextChunkStart;
               setCurrentIndex(nextChunkStart);
               
-              // Reset trigger for the main fetch effect
-              audioStartedRef.current = false; 
-              // Note: changing currentIndex and audioStartedRef.current=false will trigger dependency in effect #3
+              // Already prefetched in the common case, so this switches without a pause
+              playChunk(nextChunkStart, getChunkWords(words, nextChunkStart)).then((result) => {
+                  if (result === 'failed') {
+                      audioStartedRef.current = false;
+                      console.warn("[RSVP] Audio fetch failed. Disabling audio.");
+                      useStore.getState().toggleAudio();
+                  }
+              });
+
+              // Keep the queue topped up
+              for (let i = 1; i <= PREFETCH_AHEAD; i++) {
+                  const ahead = nextChunkStart + i * CHUNK_SIZE;
+                  if (ahead < words.length) prefetchChunk(ahead, getChunkWords(words, ahead));
+              }
           } else {
               // End of Content
-              console.log("[RSVP] End of content reached.");
               setIsPlaying(false);
               stop();
               setCurrentIndex(0); // Optional: reset to start? Or stay at end? User preference usually stay or reset.
@@ -186,7 +222,7 @@ export const useRSVP = (isDriver: boolean = true) => {
       return () => {
           audioElement?.removeEventListener('ended', handleEnded);
       };
-  }, [audioElement, isPlaying, isAudioEnabled, content.length, setCurrentIndex, setIsPlaying, stop]);
+  }, [audioElement, isDriver, isPlaying, isAudioEnabled, setCurrentIndex, setIsPlaying, stop, playChunk, prefetchChunk]);
 
   return {
     progress: content.length > 0 ? (currentIndex / content.length) * 100 : 0,
@@ -0,0 +1,92 @@
+import { useEffect } from 'react';
+import { useStore } from '@/store/useStore';
+import { saveSession } from '@/lib/document-store';
+import { ReadingSession } from '@/lib/reading-stats';
+
+const MAX_STEP = 5; // Larger jumps are seeks, not reading
+const MIN_SESSION_MS = 5000;
+const MIN_SESSION_WORDS = 10;
+
+interface OpenSession {
+    fileId: string;
+    fileName: string;
+    start: number;
+    startIndex: number;
+    lastIndex: number;
+    words: number;
+    settingWpm: number;
+}
+
+// Logs a ReadingSession for every stretch of playback (play -> pause, file change, tab hidden).
+// Mount once, next to the page-level keyboard shortcuts.
+export const useReadingSession = () => {
+    useEffect(() => {
+        let session: OpenSession | null = null;
+
+        const finish = () => {
+            if (!session) return;
+            const { fileId, fileName, start, startIndex, lastIndex, words, settingWpm } = session;
+            session = null;
+
+            const end = Date.now();
+            if (end - start < MIN_SESSION_MS || words < MIN_SESSION_WORDS) return;
+
+            const record: ReadingSession = {
+                id: `${start}-${fileId}`,
+                fileId,
+                fileName,
+                start,
+                end,
+                startIndex,
+                endIndex: lastIndex,
+                words,
+                settingWpm,
+            };
+            saveSession(record).catch((error) => console.error('[Stats] Failed to save session', error));
+        };
+
+        const begin = () => {
+            const { currentFileId, currentIndex, recentFiles, wpm } = useStore.getState();
+            if (!currentFileId || currentFileId === 'demo') return;
+            // Background audio keeps updating the store; only count time someone can see
+            if (document.visibilityState !== 'visible') return;
+            session = {
+                fileId: currentFileId,
+                fileName: recentFiles.find(f => f.id === currentFileId)?.name || 'Untitled',
+                start: Date.now(),
+                startIndex: currentIndex,
+                lastIndex: currentIndex,
+                words: 0,
+                settingWpm: wpm,
+            };
+        };
+
+        const unsubscribe = useStore.subscribe((state, prev) => {
+            if (state.currentFileId !== prev.currentFileId) finish();
+
+            if (session && state.currentIndex !== prev.currentIndex) {
+                const step = state.currentIndex - session.lastIndex;
+                if (step > 0 && step <= MAX_STEP) session.words += step;
+                session.lastIndex = state.currentIndex;
+            }
+
+            if (state.isPlaying && !session) begin();
+            else if (!state.isPlaying && session) finish();
+        });
+
+        // A hidden tab may keep "playing" without anyone reading
+        const handleVisibility = () => {
+            if (document.visibilityState === 'hidden') finish();
+            else if (useStore.getState().isPlaying && !session) begin();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        window.addEventListener('pagehide', finish);
+
+        return () => {
+            unsubscribe();
+            document.removeEventListener('visibilitychange', handleVisibility);
+            window.removeEventListener('pagehide', finish);
+            finish();
+        };
+    }, []);
+};
@@ -0,0 +1,93 @@
+// Highlights & notes export: Markdown for pasting into a wiki, JSON for scripts.
+import { Annotation, Chapter, RecentFile } from '@/store/useStore';
+
+const CONTEXT_WORDS = 12; // Words of surrounding text on each side
+
+export interface ExportedAnnotation {
+    id: string;
+    type: Annotation['type'];
+    chapter: string;
+    startIndex: number;
+    endIndex: number; // Exclusive
+    text: string;
+    contextBefore: string;
+    contextAfter: string;
+    note: string | null;
+    position: number; // 0..1 through the document
+    createdAt: string; // ISO date
+}
+
+export interface AnnotationExport {
+    document: { id: string; name: string; wordCount: number };
+    exportedAt: string;
+    annotations: ExportedAnnotation[];
+}
+
+const chapterAt = (chapters: Chapter[], index: number) => {
+    let title = '';
+    for (const chapter of chapters) {
+        if (chapter.startIndex > index) break;
+        title = chapter.title;
+    }
+    return title;
+};
+
+export const buildAnnotationExport = (
+    file: RecentFile,
+    words: string[],
+    chapters: Chapter[],
+    annotations: Annotation[]
+): AnnotationExport => ({
+    document: { id: file.id, name: file.name, wordCount: words.length },
+    exportedAt: new Date().toISOString(),
+    annotations: [...annotations]
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .map(a => ({
+            id: a.id,
+            type: a.type,
+            chapter: chapterAt(chapters, a.startIndex),
+            startIndex: a.startIndex,
+            endIndex: a.endIndex,
+            text: words.slice(a.startIndex, a.endIndex).join(' '),
+            contextBefore: words.slice(Math.max(0, a.startIndex - CONTEXT_WORDS), a.startIndex).join(' '),
+            contextAfter: words.slice(a.endIndex, a.endIndex + CONTEXT_WORDS).join(' '),
+            note: a.note ?? null,
+            position: words.length > 0 ? a.startIndex / words.length : 0,
+            createdAt: new Date(a.createdAt).toISOString(),
+        })),
+});
+
+export const annotationsToJSON = (data: AnnotationExport) => JSON.stringify(data, null, 2);
+
+// Markdown special characters in book text must not turn into formatting
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+export const annotationsToMarkdown = (data: AnnotationExport) => {
+    const lines: string[] = [
+        `# ${escapeMarkdown(data.document.name)}`,
+        '',
+        `_${data.annotations.length} highlight${data.annotations.length !== 1 ? 's' : ''} · exported ${data.exportedAt.slice(0, 10)}_`,
+    ];
+
+    let currentChapter: string | null = null;
+    for (const a of data.annotations) {
+        if (a.chapter !== currentChapter) {
+            currentChapter = a.chapter;
+            lines.push('', `## ${escapeMarkdown(a.chapter || 'Untitled')}`);
+        }
+
+        const before = a.contextBefore ? `…${escapeMarkdown(a.contextBefore)} ` : '';
+        const after = a.contextAfter ? ` ${escapeMarkdown(a.contextAfter)}…` : '';
+        const label = a.type === 'bookmark' ? 'Bookmark' : 'Highlight';
+
+        lines.push(
+            '',
+            `> ${before}**${escapeMarkdown(a.text)}**${after}`,
+            '',
+            `- ${label} at word ${a.startIndex + 1} of ${data.document.wordCount} (${Math.round(a.position * 100)}%)`
+        );
+        if (a.note) lines.push(`- Note: ${escapeMarkdown(a.note)}`);
+    }
+
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,124 @@
+// Offline audiobook export: every chapter is synthesized through /api/tts in reader-sized
+// chunks, the mp3 chunks are concatenated into one file per chapter, and everything is
+// zipped together with a word-timing sidecar (timings.json).
+import JSZip from 'jszip';
+import { Chapter } from '@/store/useStore';
+import { WordMark } from '@/lib/tts-marks';
+import { safeFileName } from '@/lib/download';
+
+const CHUNK_SIZE = 60; // Keeps each request well within Edge's timeout, like live playback
+const MAX_ATTEMPTS = 3; // Per chunk; Edge occasionally drops a connection
+
+// Edge output is audio-24khz-48kbitrate-mono-mp3 (constant bitrate), so
+// duration follows from size and frames concatenate without re-encoding.
+const MP3_BYTES_PER_SECOND = 48000 / 8;
+
+export interface AudiobookProgress {
+    done: number; // Chunks synthesized
+    total: number;
+    chapter: string; // Title of the chapter being synthesized
+}
+
+export interface AudiobookOptions {
+    voice: string;
+    rate?: number; // Synthesizer rate, 1 = the voice's normal pace
+    signal?: AbortSignal;
+    onProgress?: (progress: AudiobookProgress) => void;
+}
+
+// Sidecar format: absolute word indices, times in seconds from the start of the chapter file
+export interface AudiobookTimings {
+    title: string;
+    voice: string;
+    rate: number;
+    chapters: {
+        title: string;
+        file: string;
+        startIndex: number;
+        wordCount: number;
+        duration: number;
+        words: { index: number; word: string; start: number; end: number }[];
+    }[];
+}
+
+const synthesizeChunk = async (words: string[], voice: string, rate: number, signal?: AbortSignal) => {
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            const response = await fetch('/api/tts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ words, voice, rate }),
+                signal
+            });
+            const data = await response.json();
+            if (!response.ok || data.error) throw new Error(data.error || `Server returned ${response.status}`);
+
+            const binary = atob(data.audio);
+            const audio = new Uint8Array(binary.length);
+            for (let i = 0; i < binary.length; i++) audio[i] = binary.charCodeAt(i);
+            return { audio, marks: (data.marks || []) as WordMark[] };
+        } catch (err) {
+            if (signal?.aborted) throw err;
+            lastError = err;
+        }
+    }
+    throw lastError;
+};
+
+export const exportAudiobook = async (
+    title: string,
+    words: string[],
+    chapters: Chapter[],
+    { voice, rate = 1, signal, onProgress }: AudiobookOptions
+): Promise<Blob> => {
+    const sections = (chapters.length > 0 ? chapters : [{ title, startIndex: 0, wordCount: words.length }])
+        .filter(ch => ch.wordCount > 0);
+    const total = sections.reduce((sum, ch) => sum + Math.ceil(ch.wordCount / CHUNK_SIZE), 0);
+
+    const zip = new JSZip();
+    const timings: AudiobookTimings = { title, voice, rate, chapters: [] };
+    let done = 0;
+
+    for (const [i, chapter] of sections.entries()) {
+        const parts: Uint8Array[] = [];
+        const chapterWords: AudiobookTimings['chapters'][number]['words'] = [];
+        let offsetSeconds = 0;
+
+        const end = Math.min(words.length, chapter.startIndex + chapter.wordCount);
+        for (let start = chapter.startIndex; start < end; start += CHUNK_SIZE) {
+            onProgress?.({ done, total, chapter: chapter.title });
+
+            const chunkWords = words.slice(start, Math.min(start + CHUNK_SIZE, end));
+            const { audio, marks } = await synthesizeChunk(chunkWords, voice, rate, signal);
+
+            marks.forEach((mark, j) => chapterWords.push({
+                index: start + j,
+                word: chunkWords[j] ?? mark.word,
+                start: offsetSeconds + mark.start,
+                end: offsetSeconds + mark.end
+            }));
+            parts.push(audio);
+            offsetSeconds += audio.length / MP3_BYTES_PER_SECOND;
+            done++;
+        }
+
+        const file = `${String(i + 1).padStart(2, '0')} - ${safeFileName(chapter.title, `Chapter ${i + 1}`)}.mp3`;
+        zip.file(file, new Blob(parts as BlobPart[], { type: 'audio/mpeg' }));
+        timings.chapters.push({
+            title: chapter.title,
+            file,
+            startIndex: chapter.startIndex,
+            wordCount: chapter.wordCount,
+            duration: offsetSeconds,
+            words: chapterWords
+        });
+    }
+
+    onProgress?.({ done, total, chapter: '' });
+    zip.file('timings.json', JSON.stringify(timings, null, 2));
+
+    // mp3 is already compressed
+    return zip.generateAsync({ type: 'blob', compression: 'STORE' });
+};
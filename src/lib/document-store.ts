@@ -0,0 +1,344 @@
+// IndexedDB-backed library. Metadata (RecentFile) and document bodies live in separate
+// object stores so the Sidebar can list every book without pulling any text into memory.
+import { Annotation, Chapter, RecentFile } from '@/store/useStore';
+import { QuizResult, ReadingSession } from '@/lib/reading-stats';
+import { Flashcard } from '@/lib/flashcards';
+import { buildStructure, detectChapters, DocumentStructure } from '@/lib/file-utils';
+import { SourceMap } from '@/lib/source-map';
+
+const DB_NAME = 'photon-library';
+const DB_VERSION = 6;
+const FILES_STORE = 'files'; // RecentFile metadata, keyed by id
+const CONTENT_STORE = 'content'; // StoredDocument bodies, keyed by id
+const ANNOTATIONS_STORE = 'annotations'; // Bookmarks & highlights, keyed by id, indexed by fileId (v2)
+const SEARCH_STORE = 'search'; // SearchEntry per document for library-wide search, keyed by id (v3)
+const SESSIONS_STORE = 'sessions'; // ReadingSession log, keyed by id (v4); kept when a file is deleted
+const QUIZZES_STORE = 'quizzes'; // QuizResult log, keyed by id (v5); kept like sessions
+const FLASHCARDS_STORE = 'flashcards'; // Flashcard deck, keyed by id (v6); cards carry their own text and outlive the file
+
+export interface StoredDocument extends Partial<DocumentStructure> {
+    id: string;
+    fullText: string;
+    words: string[];
+    chapters: Chapter[];
+    sourceMap?: SourceMap; // Word -> page / text item, for PDFs
+}
+
+// Documents saved before structure was extracted get sentence ends from their words,
+// with chapter boundaries as the only known paragraph breaks
+export const getDocumentStructure = (doc: StoredDocument): DocumentStructure =>
+    doc.paragraphEnds && doc.sentenceEnds
+        ? { paragraphEnds: doc.paragraphEnds, sentenceEnds: doc.sentenceEnds }
+        : buildStructure(doc.words, doc.chapters.map(c => c.startIndex - 1));
+
+// Inverted index of one document: normalized term -> word indices (see lib/library-index)
+export interface SearchEntry {
+    id: string;
+    terms: Record<string, number[]>;
+    skipped?: number[]; // Word indices without a term (punctuation only), ascending; missing in old entries
+}
+
+// Shape of entries written by the old localStorage-only store
+export interface LegacyRecentFile extends RecentFile {
+    fullText?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        // A tab still running an older version holds the upgrade until it closes its connection
+        let isBlocked = false;
+        request.onblocked = () => {
+            isBlocked = true;
+            reject(new Error('Library upgrade blocked by another open tab'));
+        };
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(FILES_STORE)) {
+                db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(CONTENT_STORE)) {
+                db.createObjectStore(CONTENT_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(ANNOTATIONS_STORE)) {
+                db.createObjectStore(ANNOTATIONS_STORE, { keyPath: 'id' }).createIndex('fileId', 'fileId');
+            }
+            if (!db.objectStoreNames.contains(SEARCH_STORE)) {
+                db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(QUIZZES_STORE)) {
+                db.createObjectStore(QUIZZES_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(FLASHCARDS_STORE)) {
+                db.createObjectStore(FLASHCARDS_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Already rejected; the next call opens a fresh connection
+            if (isBlocked) {
+                db.close();
+                return;
+            }
+            // Step aside when a newer version of the app (another tab) needs to upgrade
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+// ---------------------------
+// Legacy Migration
+// ---------------------------
+// Set by the zustand `migrate` hook when it finds documents in the old localStorage blob.
+// `loadLibrary` waits for it so the first listing already includes migrated books.
+let pendingMigration: Promise<void> | null = null;
+
+// The persisted store drops the old blob as soon as it has migrated, so the documents are
+// copied here first and only removed once they are in IndexedDB. A failed migration is
+// retried from this copy on the next load.
+const LEGACY_BACKUP_KEY = 'photon-legacy-library';
+
+const readLegacyBackup = (): LegacyRecentFile[] | null => {
+    try {
+        const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(LEGACY_BACKUP_KEY) : null;
+        return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+        console.error('[Library] Unreadable legacy backup', error);
+        return null;
+    }
+};
+
+export const migrateLegacyFiles = (files: LegacyRecentFile[]) => {
+    try {
+        localStorage.setItem(LEGACY_BACKUP_KEY, JSON.stringify(files));
+    } catch (error) {
+        console.error('[Library] Could not back up legacy documents', error);
+    }
+    runMigration(files);
+};
+
+const runMigration = (files: LegacyRecentFile[]) => {
+    pendingMigration = (async () => {
+        const db = await openDB();
+        const tx = db.transaction([FILES_STORE, CONTENT_STORE], 'readwrite');
+        const filesStore = tx.objectStore(FILES_STORE);
+        const contentStore = tx.objectStore(CONTENT_STORE);
+
+        for (const legacy of files) {
+            const { fullText, ...meta } = legacy;
+            filesStore.put(meta);
+
+            if (fullText) {
+                // Rebuild exactly what the old loadRecentFile would have produced
+                const detected = detectChapters(fullText);
+                contentStore.put({
+                    id: legacy.id,
+                    fullText,
+                    words: detected.words,
+                    chapters: legacy.chapters || detected.chapters,
+                } satisfies StoredDocument);
+            }
+        }
+
+        await transactionDone(tx);
+        localStorage.removeItem(LEGACY_BACKUP_KEY);
+    })().catch((error) => {
+        console.error('[Library] Migration from localStorage failed; kept the backup for the next load', error);
+    });
+};
+
+// ---------------------------
+// Public API
+// ---------------------------
+
+export const loadLibrary = async (): Promise<RecentFile[]> => {
+    if (!pendingMigration) {
+        const backup = readLegacyBackup();
+        if (backup) runMigration(backup);
+    }
+    if (pendingMigration) await pendingMigration;
+    const db = await openDB();
+    const files = await promisify(db.transaction(FILES_STORE).objectStore(FILES_STORE).getAll() as IDBRequest<RecentFile[]>);
+    // Most recently touched first, matching the old in-memory ordering
+    return files.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const loadDocument = async (id: string): Promise<StoredDocument | undefined> => {
+    const db = await openDB();
+    return promisify(db.transaction(CONTENT_STORE).objectStore(CONTENT_STORE).get(id) as IDBRequest<StoredDocument | undefined>);
+};
+
+export const saveDocument = async (file: RecentFile, doc: StoredDocument): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction([FILES_STORE, CONTENT_STORE], 'readwrite');
+    tx.objectStore(FILES_STORE).put(file);
+    tx.objectStore(CONTENT_STORE).put(doc);
+    await transactionDone(tx);
+};
+
+export const saveFileMeta = async (file: RecentFile): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    tx.objectStore(FILES_STORE).put(file);
+    await transactionDone(tx);
+};
+
+// Progress changes on every word; coalesce those writes per file.
+const metaSaveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const META_SAVE_DELAY = 1000;
+
+export const scheduleFileMetaSave = (file: RecentFile) => {
+    const existing = metaSaveTimers.get(file.id);
+    if (existing) clearTimeout(existing);
+
+    metaSaveTimers.set(file.id, setTimeout(() => {
+        metaSaveTimers.delete(file.id);
+        saveFileMeta(file).catch((error) => console.error('[Library] Failed to save progress', error));
+    }, META_SAVE_DELAY));
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+    const pending = metaSaveTimers.get(id);
+    if (pending) {
+        clearTimeout(pending);
+        metaSaveTimers.delete(id);
+    }
+
+    const db = await openDB();
+    const tx = db.transaction([FILES_STORE, CONTENT_STORE, ANNOTATIONS_STORE, SEARCH_STORE], 'readwrite');
+    tx.objectStore(FILES_STORE).delete(id);
+    tx.objectStore(CONTENT_STORE).delete(id);
+    tx.objectStore(SEARCH_STORE).delete(id);
+    const annotations = tx.objectStore(ANNOTATIONS_STORE);
+    const keys = await promisify(annotations.index('fileId').getAllKeys(id));
+    keys.forEach((key) => annotations.delete(key));
+    await transactionDone(tx);
+};
+
+// ---------------------------
+// Annotations
+// ---------------------------
+
+export const loadAnnotations = async (fileId: string): Promise<Annotation[]> => {
+    const db = await openDB();
+    const store = db.transaction(ANNOTATIONS_STORE).objectStore(ANNOTATIONS_STORE);
+    const annotations = await promisify(store.index('fileId').getAll(fileId) as IDBRequest<Annotation[]>);
+    return annotations.sort((a, b) => a.startIndex - b.startIndex);
+};
+
+export const saveAnnotation = async (annotation: Annotation): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(ANNOTATIONS_STORE, 'readwrite');
+    tx.objectStore(ANNOTATIONS_STORE).put(annotation);
+    await transactionDone(tx);
+};
+
+export const deleteAnnotation = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(ANNOTATIONS_STORE, 'readwrite');
+    tx.objectStore(ANNOTATIONS_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+// ---------------------------
+// Search Index
+// ---------------------------
+
+export const loadSearchEntries = async (): Promise<SearchEntry[]> => {
+    const db = await openDB();
+    return promisify(db.transaction(SEARCH_STORE).objectStore(SEARCH_STORE).getAll() as IDBRequest<SearchEntry[]>);
+};
+
+export const saveSearchEntry = async (entry: SearchEntry): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(SEARCH_STORE, 'readwrite');
+    tx.objectStore(SEARCH_STORE).put(entry);
+    await transactionDone(tx);
+};
+
+// ---------------------------
+// Reading Sessions
+// ---------------------------
+
+export const loadSessions = async (): Promise<ReadingSession[]> => {
+    const db = await openDB();
+    const sessions = await promisify(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll() as IDBRequest<ReadingSession[]>);
+    return sessions.sort((a, b) => a.start - b.start);
+};
+
+export const saveSession = async (session: ReadingSession): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(session);
+    await transactionDone(tx);
+};
+
+export const loadQuizResults = async (): Promise<QuizResult[]> => {
+    const db = await openDB();
+    const results = await promisify(db.transaction(QUIZZES_STORE).objectStore(QUIZZES_STORE).getAll() as IDBRequest<QuizResult[]>);
+    return results.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveQuizResult = async (result: QuizResult): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(QUIZZES_STORE, 'readwrite');
+    tx.objectStore(QUIZZES_STORE).put(result);
+    await transactionDone(tx);
+};
+
+// ---------------------------
+// Flashcards
+// ---------------------------
+
+export const loadFlashcards = async (): Promise<Flashcard[]> => {
+    const db = await openDB();
+    return promisify(db.transaction(FLASHCARDS_STORE).objectStore(FLASHCARDS_STORE).getAll() as IDBRequest<Flashcard[]>);
+};
+
+export const saveFlashcard = async (card: Flashcard): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(FLASHCARDS_STORE, 'readwrite');
+    tx.objectStore(FLASHCARDS_STORE).put(card);
+    await transactionDone(tx);
+};
+
+export const deleteFlashcard = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(FLASHCARDS_STORE, 'readwrite');
+    tx.objectStore(FLASHCARDS_STORE).delete(id);
+    await transactionDone(tx);
+};
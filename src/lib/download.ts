@@ -0,0 +1,17 @@
+// Client-side file downloads (exports are built in the browser, never uploaded)
+
+// Strip characters that are invalid in file names on common platforms
+export const safeFileName = (name: string, fallback = 'untitled') =>
+    name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || fallback;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke after the browser has picked the download up
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,111 @@
+import { buildStructure, chaptersFromHeadings, cleanText, processedToWords, ProcessedText } from '@/lib/file-utils';
+import { registerFormat } from './registry';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Outline levels 0–2 ("Heading 1" – "Heading 3") become chapters
+const MAX_OUTLINE_LEVEL = 2;
+
+const wAttr = (el: Element | undefined, name: string) =>
+    el ? el.getAttributeNS(W_NS, name) ?? el.getAttribute(`w:${name}`) : null;
+
+const firstChild = (el: Element, localName: string): Element | undefined =>
+    Array.from(el.children).find(c => c.localName === localName);
+
+// Heading level per paragraph style id. Style ids are localised ("berschrift1"), so we
+// read the style's English name ("heading 1") and outline level from styles.xml.
+const parseHeadingStyles = (stylesXml: Document | null): Record<string, number> => {
+    const levels: Record<string, number> = {};
+    if (!stylesXml) return levels;
+
+    Array.from(stylesXml.getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+        const id = wAttr(style, 'styleId');
+        if (!id) return;
+
+        const name = (wAttr(firstChild(style, 'name'), 'val') || '').toLowerCase();
+        const pPr = firstChild(style, 'pPr');
+        const outline = wAttr(pPr && firstChild(pPr, 'outlineLvl'), 'val');
+        const nameMatch = /^heading (\d)$/.exec(name);
+
+        if (name === 'title') levels[id] = 0;
+        else if (nameMatch) levels[id] = Number(nameMatch[1]) - 1;
+        else if (outline !== null) levels[id] = Number(outline);
+    });
+
+    return levels;
+};
+
+const paragraphText = (p: Element): string => {
+    let text = '';
+    const walk = (el: Element) => {
+        Array.from(el.children).forEach(child => {
+            switch (child.localName) {
+                case 't': text += child.textContent || ''; break;
+                case 'tab':
+                case 'br': text += ' '; break;
+                case 'delText': break; // Tracked deletions are not part of the document
+                default: walk(child);
+            }
+        });
+    };
+    walk(p);
+    return text;
+};
+
+export const extractTextFromDOCX = async (file: File): Promise<ProcessedText> => {
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const parser = new DOMParser();
+
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) throw new Error('DOCX is missing word/document.xml');
+    const stylesXml = await zip.file('word/styles.xml')?.async('string');
+
+    const doc = parser.parseFromString(documentXml, 'application/xml');
+    const headingStyles = parseHeadingStyles(stylesXml ? parser.parseFromString(stylesXml, 'application/xml') : null);
+
+    const words: string[] = [];
+    const headings: { title: string, startIndex: number }[] = [];
+    const paragraphEnds: number[] = [];
+    let rawText = '';
+
+    Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).forEach(p => {
+        const text = paragraphText(p);
+        if (!text.trim()) return;
+
+        const pPr = firstChild(p, 'pPr');
+        const styleId = wAttr(pPr && firstChild(pPr, 'pStyle'), 'val');
+        const directOutline = wAttr(pPr && firstChild(pPr, 'outlineLvl'), 'val');
+        const level = directOutline !== null
+            ? Number(directOutline)
+            : styleId && headingStyles[styleId] !== undefined
+                ? headingStyles[styleId]
+                // No styles.xml: fall back to the built-in English ids
+                : styleId && /^Heading(\d)$/i.test(styleId) ? Number(styleId.slice(7)) - 1
+                : styleId === 'Title' ? 0
+                : undefined;
+
+        if (level !== undefined && level <= MAX_OUTLINE_LEVEL) {
+            headings.push({ title: text.replace(/\s+/g, ' ').trim(), startIndex: words.length });
+        }
+
+        words.push(...processedToWords(cleanText(text)));
+        paragraphEnds.push(words.length - 1);
+        rawText += text + '\n';
+    });
+
+    return {
+        words,
+        chapters: chaptersFromHeadings(headings, words.length, rawText),
+        rawText,
+        ...buildStructure(words, paragraphEnds)
+    };
+};
+
+registerFormat({
+    id: 'docx',
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extract: extractTextFromDOCX
+});
@@ -0,0 +1,170 @@
+import { buildStructure, chaptersFromHeadings, collectElementText, paragraphsToWords, ProcessedText, splitParagraphs, wordIndexAt } from '@/lib/file-utils';
+import { registerFormat } from './registry';
+
+// ---------------------------
+// EPUB Helpers
+// ---------------------------
+
+// Resolve an href relative to the file that contains it (zip paths, no leading slash)
+const resolveZipPath = (baseFile: string, href: string): string => {
+    const parts = baseFile.split('/').slice(0, -1);
+    for (const segment of decodeURIComponent(href).split('/')) {
+        if (segment === '..') parts.pop();
+        else if (segment !== '.' && segment !== '') parts.push(segment);
+    }
+    return parts.join('/');
+};
+
+const splitHref = (href: string): { path: string, fragment?: string } => {
+    const [path, fragment] = href.split('#');
+    return { path, fragment: fragment || undefined };
+};
+
+interface TocEntry {
+    title: string;
+    path: string;
+    fragment?: string;
+}
+
+// EPUB 3: <nav epub:type="toc"> with nested <ol><li><a href>
+const parseNavToc = (doc: Document, navPath: string): TocEntry[] => {
+    const navs = Array.from(doc.getElementsByTagName('nav'));
+    const tocNav = navs.find(n => (n.getAttribute('epub:type') || n.getAttribute('type') || '').split(/\s+/).includes('toc')) || navs[0];
+    if (!tocNav) return [];
+
+    return Array.from(tocNav.getElementsByTagName('a'))
+        .filter(a => a.getAttribute('href'))
+        .map(a => {
+            const { path, fragment } = splitHref(a.getAttribute('href')!);
+            return {
+                title: (a.textContent || '').replace(/\s+/g, ' ').trim(),
+                path: resolveZipPath(navPath, path),
+                fragment
+            };
+        });
+};
+
+// EPUB 2: toc.ncx <navPoint><navLabel><text/></navLabel><content src/></navPoint>
+const parseNcxToc = (doc: Document, ncxPath: string): TocEntry[] => {
+    return Array.from(doc.getElementsByTagNameNS('*', 'navPoint'))
+        .map((point): TocEntry | null => {
+            // Direct children only, nested navPoints carry their own label
+            const label = Array.from(point.children).find(c => c.localName === 'navLabel');
+            const content = Array.from(point.children).find(c => c.localName === 'content');
+            const src = content?.getAttribute('src');
+            if (!src) return null;
+
+            const { path, fragment } = splitHref(src);
+            return {
+                title: (label?.textContent || '').replace(/\s+/g, ' ').trim(),
+                path: resolveZipPath(ncxPath, path),
+                fragment
+            };
+        })
+        .filter((entry): entry is TocEntry => entry !== null);
+};
+
+export const extractTextFromEPUB = async (file: File): Promise<ProcessedText> => {
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const parser = new DOMParser();
+
+    const readText = async (path: string) => {
+        const entry = zip.file(path);
+        if (!entry) throw new Error(`EPUB is missing ${path}`);
+        return entry.async('string');
+    };
+
+    // 1. container.xml -> OPF package document
+    const container = parser.parseFromString(await readText('META-INF/container.xml'), 'application/xml');
+    const opfPath = container.getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath) throw new Error('EPUB container has no rootfile');
+
+    const opf = parser.parseFromString(await readText(opfPath), 'application/xml');
+
+    // 2. Manifest & Spine
+    const manifest: Record<string, { href: string, mediaType: string, properties: string }> = {};
+    Array.from(opf.getElementsByTagNameNS('*', 'item')).forEach(item => {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (id && href) {
+            manifest[id] = {
+                href: resolveZipPath(opfPath, href),
+                mediaType: item.getAttribute('media-type') || '',
+                properties: item.getAttribute('properties') || ''
+            };
+        }
+    });
+
+    const spineEl = opf.getElementsByTagNameNS('*', 'spine')[0];
+    const spinePaths = Array.from(opf.getElementsByTagNameNS('*', 'itemref'))
+        .map(ref => manifest[ref.getAttribute('idref') || '']?.href)
+        .filter((href): href is string => !!href);
+
+    // 3. Text per spine document, in reading order
+    const words: string[] = [];
+    const paragraphEnds: number[] = [];
+    const docStarts: Record<string, number> = {};
+    const anchorIndices: Record<string, Record<string, number>> = {};
+    let rawText = '';
+
+    for (const path of spinePaths) {
+        const html = await readText(path).catch(() => null);
+        if (html === null) continue;
+
+        const doc = parser.parseFromString(html, 'text/html');
+        if (!doc.body) continue;
+        const { text, anchors } = collectElementText(doc.body);
+        const docText = paragraphsToWords(splitParagraphs(text));
+
+        docStarts[path] = words.length;
+        anchorIndices[path] = {};
+        for (const id in anchors) {
+            anchorIndices[path][id] = words.length + wordIndexAt(text, anchors[id]);
+        }
+
+        paragraphEnds.push(...docText.paragraphEnds.map(i => words.length + i));
+        words.push(...docText.words);
+        rawText += text + '\n\n';
+    }
+
+    // 4. Table of Contents (EPUB 3 nav first, then EPUB 2 NCX)
+    let toc: TocEntry[] = [];
+    const navItem = Object.values(manifest).find(m => m.properties.split(/\s+/).includes('nav'));
+    const ncxItem = manifest[spineEl?.getAttribute('toc') || ''] || Object.values(manifest).find(m => m.mediaType === 'application/x-dtbncx+xml');
+
+    if (navItem) {
+        const navDoc = parser.parseFromString(await readText(navItem.href), 'text/html');
+        toc = parseNavToc(navDoc, navItem.href);
+    }
+    if (toc.length === 0 && ncxItem) {
+        const ncxDoc = parser.parseFromString(await readText(ncxItem.href), 'application/xml');
+        toc = parseNcxToc(ncxDoc, ncxItem.href);
+    }
+
+    // 5. Resolve TOC entries to word indices
+    const headings = toc
+        .filter(entry => docStarts[entry.path] !== undefined) // Skip entries outside the spine
+        .map(entry => ({
+            title: entry.title,
+            startIndex: entry.fragment !== undefined
+                ? anchorIndices[entry.path][entry.fragment] ?? docStarts[entry.path]
+                : docStarts[entry.path]
+        }));
+
+    if (headings.length === 0) {
+        console.warn('[EPUB] No usable table of contents. Falling back to Text Heuristic.');
+    }
+    const chapters = chaptersFromHeadings(headings, words.length, rawText);
+
+    return { words, chapters, rawText, ...buildStructure(words, paragraphEnds) };
+};
+
+
+registerFormat({
+    id: 'epub',
+    label: 'EPUB',
+    extensions: ['.epub'],
+    mimeTypes: ['application/epub+zip'],
+    extract: extractTextFromEPUB
+});
@@ -0,0 +1,45 @@
+import { buildStructure, chaptersFromHeadings, collectElementText, paragraphsToWords, ProcessedText, splitParagraphs, wordIndexAt } from '@/lib/file-utils';
+import { registerFormat } from './registry';
+
+// <h1>–<h3> become chapters; deeper headings are read as normal text
+const MAX_CHAPTER_LEVEL = 3;
+
+// Page chrome that is never part of the reading text
+const CHROME_SELECTOR = 'nav, header, footer, aside, form, script, style, noscript, iframe, svg';
+
+// Works on any DOM implementation (browser DOMParser or linkedom in API routes)
+export const extractTextFromDocument = (doc: Document): ProcessedText => {
+    doc.querySelectorAll(CHROME_SELECTOR).forEach(el => el.remove());
+
+    // Prefer the semantic content container when the page has one
+    const root = doc.querySelector('article') || doc.querySelector('main') || doc.body;
+    if (!root) return { words: [], chapters: [], rawText: '', paragraphEnds: [], sentenceEnds: [] };
+
+    const { text, headings } = collectElementText(root);
+    const { words, paragraphEnds } = paragraphsToWords(splitParagraphs(text));
+
+    const chapterHeadings = headings
+        .filter(h => h.level <= MAX_CHAPTER_LEVEL && h.title)
+        .map(h => ({ title: h.title, startIndex: wordIndexAt(text, h.offset) }));
+
+    return {
+        words,
+        chapters: chaptersFromHeadings(chapterHeadings, words.length, text),
+        rawText: text,
+        ...buildStructure(words, paragraphEnds)
+    };
+};
+
+export const extractTextFromHTMLString = (html: string): ProcessedText =>
+    extractTextFromDocument(new DOMParser().parseFromString(html, 'text/html'));
+
+export const extractTextFromHTML = async (file: File): Promise<ProcessedText> =>
+    extractTextFromHTMLString(await file.text());
+
+registerFormat({
+    id: 'html',
+    label: 'HTML',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extract: extractTextFromHTML
+});
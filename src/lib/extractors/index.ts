@@ -0,0 +1,17 @@
+// Importing a format module registers it; order here is the order shown to users.
+import './pdf';
+import './epub';
+import './docx';
+import './markdown';
+import './html';
+import './txt';
+
+export {
+    extractTextFromFile,
+    findFormat,
+    getAcceptAttribute,
+    getFormatLabels,
+    getFormats,
+    registerFormat,
+} from './registry';
+export type { FileFormat } from './registry';
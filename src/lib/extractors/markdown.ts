@@ -0,0 +1,86 @@
+import { buildStructure, chaptersFromHeadings, cleanText, processedToWords, ProcessedText } from '@/lib/file-utils';
+import { registerFormat } from './registry';
+
+// Headings up to this level become chapters (deeper ones are read as normal text)
+const MAX_CHAPTER_LEVEL = 3;
+
+// Strip inline Markdown so only readable words remain
+const stripInline = (line: string): string => line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ') // Images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Links -> label
+    .replace(/<[^>]+>/g, ' ') // Inline HTML
+    .replace(/`+/g, '') // Code spans
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)|(?<=\S)(\*\*|__|\*|_|~~)/g, '') // Emphasis markers
+    .replace(/^\s{0,3}>\s?/, '') // Blockquotes
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, ''); // List markers
+
+export const extractTextFromMarkdown = async (file: File): Promise<ProcessedText> => {
+    const rawText = await file.text();
+    const lines = rawText.split(/\r?\n/);
+
+    const words: string[] = [];
+    const headings: { title: string, startIndex: number }[] = [];
+    const paragraphEnds: number[] = [];
+    let inFence = false;
+
+    const endParagraph = () => {
+        if (words.length > 0 && paragraphEnds[paragraphEnds.length - 1] !== words.length - 1) {
+            paragraphEnds.push(words.length - 1);
+        }
+    };
+
+    lines.forEach((line, i) => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            endParagraph();
+            inFence = !inFence;
+            return;
+        }
+        if (!line.trim()) {
+            endParagraph();
+            return;
+        }
+        if (inFence) {
+            // Code is kept as text, but never as a heading
+            words.push(...processedToWords(cleanText(line)));
+            return;
+        }
+
+        // Setext underline ("Title\n=====") was already handled with the previous line
+        if (/^\s*(=+|-+)\s*$/.test(line) && i > 0 && lines[i - 1].trim()) return;
+
+        const atx = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+        const nextLine = lines[i + 1] || '';
+        const setextLevel = line.trim() && /^\s*=+\s*$/.test(nextLine) ? 1
+            : line.trim() && /^\s*-+\s*$/.test(nextLine) ? 2
+            : 0;
+
+        const level = atx ? atx[1].length : setextLevel;
+        const text = stripInline(atx ? atx[2] : line);
+
+        // Headings, list items and quotes stand on their own even without blank lines around them
+        const isBlockStart = level > 0 || /^\s*(?:[-*+]|\d+[.)])\s+|^\s{0,3}>/.test(line);
+        if (isBlockStart) endParagraph();
+
+        if (level > 0 && level <= MAX_CHAPTER_LEVEL && text.trim()) {
+            headings.push({ title: text.replace(/\s+/g, ' ').trim(), startIndex: words.length });
+        }
+
+        words.push(...processedToWords(cleanText(text)));
+        if (level > 0) endParagraph();
+    });
+
+    return {
+        words,
+        chapters: chaptersFromHeadings(headings, words.length, rawText),
+        rawText,
+        ...buildStructure(words, paragraphEnds)
+    };
+};
+
+registerFormat({
+    id: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extract: extractTextFromMarkdown
+});
@@ -0,0 +1,431 @@
+// We use dynamic import for pdfjs-dist to avoid "DOMMatrix is not defined" error during Next.js SSR
+// as pdfjs-dist (modern build) relies on browser APIs at the top level.
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Chapter } from '@/store/useStore';
+import { buildStructure, chaptersFromHeadings, cleanFragment, findChapterHeadings, processedToWords, ProcessedText } from '@/lib/file-utils';
+import { endsWithLineHyphen, joinHyphenated, orderReadingItems } from '@/lib/pdf-layout';
+import { registerFormat } from './registry';
+
+const PARAGRAPH_GAP = 1.8; // Line gap (in body font heights) that starts a new paragraph
+const INDENT = 1; // First-line indent (in body font heights) that starts a new paragraph
+const MARGIN_BAND = 0.1; // Top/bottom share of the page where running heads and page numbers sit
+const MIN_REPEATS = 3; // Pages a margin line must appear on to count as a running head
+
+// "12", "Page 3 of 10"
+const PAGE_NUMBER = /^(?:[Pp]age\s*)?\d+(?:\s*(?:of|\/)\s*\d+)?$/;
+// "xiv". Well formed only, so "civil" or "ill" don't count; still a word at times ("mix", "vi").
+const ROMAN_PAGE_NUMBER = /^(?:[Pp]age\s*)?(?=[ivxlcdm])m*(?:c[md]|d?c{0,3})(?:x[cl]|l?x{0,3})(?:i[xv]|v?i{0,3})$/;
+
+interface PdfPage<T> {
+    items: T[];
+    view: number[]; // [x1, y1, x2, y2] in PDF units, y up
+}
+
+// Removes running headers, footers and page numbers: items in the top or bottom band of the page
+// that are page numbers, or that repeat at about the same height on several pages (digits are
+// ignored so "Chapter 3 · 41" matches "Chapter 3 · 42"). A running head also shows up on pages
+// close together (at most two apart, for alternating left/right heads), which keeps chapter
+// openings like "Chapter 1" ... "Chapter 2" that sit at the same height on widely spaced pages.
+// Roman numerals could be words, so they only go as running page numbers: alone on their line,
+// at a position that recurs like a running head.
+const stripRunningHeads = <T extends { str: string; transform: number[] }>(pages: PdfPage<T>[]): T[][] => {
+    const isAloneOnLine = (item: T, items: T[]) => !items.some(other => other !== item && other.str.trim() &&
+        Math.abs(other.transform[5] - item.transform[5]) <= (Math.abs(item.transform[3]) || 1) * 0.5);
+
+    const marginKey = (item: T, page: PdfPage<T>) => {
+        const y = item.transform[5];
+        const share = (y - page.view[1]) / ((page.view[3] - page.view[1]) || 1);
+        const band = share > 1 - MARGIN_BAND ? 'top' : share < MARGIN_BAND ? 'bottom' : null;
+        if (!band || !item.str.trim()) return null;
+        // "xiv" on one page and "xv" on the next share a key, like "14" and "15"
+        const text = ROMAN_PAGE_NUMBER.test(item.str.trim()) && isAloneOnLine(item, page.items)
+            ? '#'
+            : item.str.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+        return `${band}|${Math.round(y / 4)}|${text}`; // ~4pt of vertical tolerance
+    };
+
+    const keys = pages.map(page => page.items.map(item => marginKey(item, page)));
+
+    // Pages each margin line appears on, and whether it recurs on nearby pages
+    const pageCounts = new Map<string, number>();
+    const lastPage = new Map<string, number>();
+    const recursNearby = new Set<string>();
+    keys.forEach((pageKeys, p) => {
+        new Set(pageKeys).forEach(key => {
+            if (!key) return;
+            pageCounts.set(key, (pageCounts.get(key) || 0) + 1);
+            if (p - (lastPage.get(key) ?? -Infinity) <= 2) recursNearby.add(key);
+            lastPage.set(key, p);
+        });
+    });
+
+    return pages.map((page, p) => page.items.filter((item, i) => {
+        const key = keys[p][i];
+        if (!key) return true;
+        const isRunning = recursNearby.has(key) && (pageCounts.get(key) || 0) >= MIN_REPEATS;
+        return !isRunning && !PAGE_NUMBER.test(item.str.trim());
+    }));
+};
+
+// Bookmark outline, flattened in document order
+interface OutlineEntry {
+    title: string;
+    level: number; // Nesting depth, 0 = top level
+    page: number; // 0-based
+    top: number | null; // Target y on the page, when the destination has one
+    left: number | null; // Target x, likewise (XYZ destinations)
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+const readOutline = async (pdf: PDFDocumentProxy): Promise<OutlineEntry[]> => {
+    const outline = await pdf.getOutline().catch(() => null);
+    const entries: OutlineEntry[] = [];
+
+    const visit = async (items: OutlineNode[], level: number) => {
+        for (const item of items) {
+            try {
+                // Named destinations point into the document's name tree
+                const dest = typeof item.dest === 'string' ? await pdf.getDestination(item.dest) : item.dest;
+                if (Array.isArray(dest) && dest[0] != null) {
+                    const page: number = typeof dest[0] === 'number' ? dest[0] : await pdf.getPageIndex(dest[0]);
+                    // [ref, {name: 'XYZ'}, left, top, zoom] or [ref, {name: 'FitH'}, top]
+                    const mode = dest[1]?.name;
+                    const top = mode === 'XYZ' ? dest[3] : mode === 'FitH' || mode === 'FitBH' ? dest[2] : null;
+                    const left = mode === 'XYZ' ? dest[2] : null;
+                    const title = String(item.title || '').replace(/\s+/g, ' ').trim();
+                    entries.push({
+                        title,
+                        level,
+                        page,
+                        top: typeof top === 'number' ? top : null,
+                        left: typeof left === 'number' ? left : null
+                    });
+                }
+            } catch (error) {
+                console.warn(`[PDF Analysis] Skipping outline entry "${item.title}"`, error);
+            }
+            if (item.items?.length) await visit(item.items, level + 1);
+        }
+    };
+
+    if (outline) await visit(outline, 0);
+    return entries;
+};
+
+export const extractTextFromPDF = async (file: File): Promise<ProcessedText> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const pdfjsLib = await import('pdfjs-dist');
+      
+      if (typeof window !== 'undefined') {
+          pdfjsLib.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+      }
+
+      const arrayBuffer = await file.arrayBuffer();
+      const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+      const pdf = await loadingTask.promise;
+      
+      // Data containers
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let globalItems: any[] = [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const allPageItems: PdfPage<any>[] = [];
+      let fullRawTextForFallback = '';
+      const rawItemOffsets: number[][] = []; // [page][item] -> character offset in fullRawTextForFallback
+      
+      // ---------------------------------------------------------
+      // PASS 1: Extract All Items & Text
+      // ---------------------------------------------------------
+      for (let i = 1; i <= pdf.numPages; i++) {
+          const page = await pdf.getPage(i);
+          const textContent = await page.getTextContent();
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const items = textContent.items as any[];
+
+          // Stripping and reordering below change positions; the SourceMap refers to pdf.js's own
+          allPageItems.push({ items: items.map((item, sourceIndex) => ({ ...item, sourceIndex })), view: page.view });
+      }
+
+      // ---------------------------------------------------------
+      // PASS 1b: Strip Running Headers, Footers & Page Numbers
+      // ---------------------------------------------------------
+      // Done before anything else looks at the items, so running heads neither repeat in the
+      // word stream nor skew the font statistics and chapter detection
+      const pdfItemCounts = allPageItems.map(pageData => pageData.items.length);
+      const bodyItems = stripRunningHeads(allPageItems);
+      allPageItems.forEach((pageData, p) => {
+          // Columns are read one after the other rather than line by line across the page
+          const items = orderReadingItems(bodyItems[p]);
+          pageData.items = items;
+
+          globalItems = globalItems.concat(items);
+
+          const pageRawText = items.map(item => item.str).join(' ');
+
+          const offsets: number[] = [];
+          let offset = fullRawTextForFallback.length;
+          for (const item of items) {
+              offsets.push(offset);
+              offset += item.str.length + 1;
+          }
+          rawItemOffsets.push(offsets);
+
+          fullRawTextForFallback += pageRawText + '\n\n';
+      });
+
+      // ---------------------------------------------------------
+      // PASS 2: Font Statistics (Find Body Text Size)
+      // ---------------------------------------------------------
+      const heightCounts: Record<number, number> = {};
+      globalItems.forEach(item => {
+           // item.transform[0] is usually font size (if unrotated)
+           // Round to 2 decimals to group effectively
+           const h = Math.round(item.transform[0] * 100) / 100;
+           if (h > 0) heightCounts[h] = (heightCounts[h] || 0) + 1;
+      });
+      
+      let bodyHeight = 0;
+      let maxCount = 0;
+      for (const hStr in heightCounts) {
+          const count = heightCounts[hStr];
+          if (count > maxCount) {
+              maxCount = count;
+              bodyHeight = parseFloat(hStr);
+          }
+      }
+      
+      console.log(`[PDF Analysis] Body Font Size: ${bodyHeight}. Threshold for Header: ${bodyHeight * 1.15}`);
+
+      // Threshold: Text significantly larger than body is a header
+      // e.g., 15% larger
+      const isHeader = (h: number) => h > bodyHeight * 1.15;
+      const itemHeight = (item: { transform: number[] }) => Math.round(item.transform[0] * 100) / 100;
+
+      // ---------------------------------------------------------
+      // PASS 3: Words & Paragraphs
+      // ---------------------------------------------------------
+      // Items are cleaned one at a time so each knows the index of its first word.
+      // A paragraph ends at a line gap well beyond normal spacing, at an indented
+      // first line, and around headers. Words hyphenated across lines are rejoined.
+      const allWords: string[] = [];
+      const paragraphEnds: number[] = [];
+      const pageStarts: number[] = [];
+      const readingStarts: number[][] = []; // [page][item in reading order] -> word index when the item starts
+      const itemStarts: number[][] = []; // [page][pdf.js item] -> first word index or -1, kept as the SourceMap
+
+      const endParagraph = () => {
+          if (allWords.length > 0 && paragraphEnds[paragraphEnds.length - 1] !== allWords.length - 1) {
+              paragraphEnds.push(allWords.length - 1);
+          }
+      };
+
+      let hyphenated = false; // Last item broke a word at the end of its line ("infor-")
+
+      for (const [page, pageData] of allPageItems.entries()) {
+          pageStarts.push(allWords.length);
+          const starts: number[] = [];
+          const sourceStarts: number[] = new Array(pdfItemCounts[page]).fill(-1);
+          let lastTextItem = -1;
+          pageData.items.forEach((item, i) => { if (item.str.trim()) lastTextItem = i; });
+
+          let lineY: number | null = null;
+          let lineX = 0;
+          let wasHeader = false;
+
+          pageData.items.forEach((item, i) => {
+              starts.push(allWords.length);
+              const str: string = item.str;
+              if (!str.trim()) return;
+              // Page number alone at the end of the page
+              if (i === lastTextItem && /^\d+$/.test(str.trim())) return;
+
+              const [, , , , x, y] = item.transform;
+              const header = isHeader(itemHeight(item));
+
+              if (header !== wasHeader) endParagraph();
+              const isNewLine = lineY === null || Math.abs(lineY - y) > bodyHeight * 0.5;
+              if (isNewLine) {
+                  // New line (y grows upwards in PDF space). Moving up means the next column,
+                  // where the x offset is no indent.
+                  const drop = lineY === null ? 0 : lineY - y;
+                  if (drop > bodyHeight * PARAGRAPH_GAP || (drop > 0 && x - lineX > bodyHeight * INDENT)) {
+                      endParagraph();
+                  }
+                  lineY = y;
+                  lineX = x;
+              }
+
+              const words = processedToWords(cleanFragment(str));
+              const paragraphOpen = paragraphEnds[paragraphEnds.length - 1] !== allWords.length - 1;
+              const joined = hyphenated && isNewLine && paragraphOpen && words.length > 0
+                  ? joinHyphenated(allWords[allWords.length - 1], words[0])
+                  : null;
+              if (joined !== null) {
+                  allWords[allWords.length - 1] = joined;
+                  words.shift();
+                  starts[i] = allWords.length - 1;
+              }
+              if (words.length > 0) sourceStarts[item.sourceIndex] = allWords.length;
+              allWords.push(...words);
+              hyphenated = endsWithLineHyphen(str);
+              wasHeader = header;
+          });
+
+          readingStarts.push(starts);
+          itemStarts.push(sourceStarts);
+      }
+
+      // ---------------------------------------------------------
+      // PASS 4: Chapters from the Outline, else Detect Headers
+      // ---------------------------------------------------------
+      // Each bookmark starts at the first text item (in reading order) at or below its target y and,
+      // when the target has an x, not left of it: on a two-column page that skips the left column
+      // for a target in the right one
+      const outlineChapters: Chapter[] = [];
+      for (const entry of await readOutline(pdf)) {
+          const items = allPageItems[entry.page]?.items;
+          if (!items) continue;
+          const { top, left } = entry;
+          let i = top === null ? -1 : items.findIndex(item =>
+              item.str.trim()
+              && item.transform[5] <= top + bodyHeight
+              && (left === null || item.transform[4] >= left - bodyHeight)
+          );
+          if (i === -1) i = 0;
+          outlineChapters.push({
+              title: entry.title || `Section ${outlineChapters.length + 1}`,
+              startIndex: readingStarts[entry.page][i] ?? pageStarts[entry.page],
+              wordCount: 0,
+              level: entry.level
+          });
+      }
+      // Stable sort: parents sharing a start with their first child stay above it
+      outlineChapters.sort((a, b) => a.startIndex - b.startIndex);
+
+      const detectedChapters: Chapter[] = [];
+
+      // Font heuristic only without an outline
+      if (outlineChapters.length === 0) allPageItems.forEach((pageData, page) => {
+          // Scan items on this page
+          for (let i = 0; i < pageData.items.length; i++) {
+              const item = pageData.items[i];
+              const h = itemHeight(item);
+              
+              if (isHeader(h) && item.str.trim().length > 1) { // Ignore single stray chars
+                   const title = item.str.trim();
+                   
+                   // Check if we should merge with previous chapter (if it was very recent/consecutive)
+                   const prevChapter = detectedChapters[detectedChapters.length - 1];
+                   const startIndex = readingStarts[page][i];
+
+                   // Validation: Don't add if very close to previous (likely multi-line title)
+                   if (prevChapter && startIndex - prevChapter.startIndex < 20) {
+                        // Merge title
+                        prevChapter.title += ' ' + title;
+                   } else {
+                       // New Chapter
+                       detectedChapters.push({
+                           title: title,
+                           startIndex: startIndex,
+                           wordCount: 0 
+                       });
+                   }
+              }
+          }
+      });
+
+      // ---------------------------------------------------------
+      // PASS 5: Post-Process & Fallback
+      // ---------------------------------------------------------
+      
+      let finalChapters = outlineChapters.length > 0 ? outlineChapters : detectedChapters;
+
+      // Word index of the text item holding a character of the raw text, so headings found by
+      // the text heuristic line up with the words cleaned item by item above
+      const rawOffsetToWord = (offset: number) => {
+          let page = rawItemOffsets.length - 1;
+          while (page >= 0 && !(rawItemOffsets[page].length > 0 && rawItemOffsets[page][0] <= offset)) page--;
+          if (page < 0) return 0;
+          let item = 0;
+          while (item + 1 < rawItemOffsets[page].length && rawItemOffsets[page][item + 1] <= offset) item++;
+          return Math.min(readingStarts[page][item] ?? pageStarts[page], allWords.length);
+      };
+
+      // Filter: Clean up titles
+      finalChapters = finalChapters.map(c => ({
+          ...c,
+          title: c.title.replace(/\s+/g, ' ').trim()
+      }));
+
+      // Filter: Remove "Chapter" if it's just the word alone? No, "Chapter 1" logic handles merged.
+
+      if (outlineChapters.length > 0) {
+          // Each entry runs until the next one, whatever its level
+          finalChapters.forEach((c, i) => {
+              c.wordCount = (finalChapters[i + 1]?.startIndex ?? allWords.length) - c.startIndex;
+          });
+          if (finalChapters[0].startIndex > 0) {
+              finalChapters.unshift({ title: 'Start', startIndex: 0, wordCount: finalChapters[0].startIndex, level: 0 });
+          }
+      } else if (finalChapters.length < 2) {
+          // FALLBACK: If we didn't find reasonable chapters (e.g. font size is uniform), use Text Heuristic
+          console.warn("[PDF Analysis] Semantic Font Analysis found too few chapters. Falling back to Text Heuristic.");
+          finalChapters = chaptersFromHeadings(
+              findChapterHeadings(fullRawTextForFallback).map(h => ({
+                  title: h.title,
+                  startIndex: rawOffsetToWord(h.index + Math.max(0, fullRawTextForFallback.slice(h.index).search(/\S/)))
+              })),
+              allWords.length,
+              fullRawTextForFallback
+          );
+      } else {
+           // Calculate Word Counts for Font-based chapters
+           for (let i = 0; i < finalChapters.length; i++) {
+              const current = finalChapters[i];
+              const next = finalChapters[i + 1];
+              if (next) {
+                  current.wordCount = next.startIndex - current.startIndex;
+              } else {
+                  current.wordCount = allWords.length - current.startIndex;
+              }
+          }
+          // Ensure first chapter starts at 0 or add Intro
+          if (finalChapters.length > 0 && finalChapters[0].startIndex > 50) {
+               finalChapters.unshift({
+                   title: 'Start',
+                   startIndex: 0,
+                   wordCount: finalChapters[0].startIndex
+               });
+          } else if (finalChapters.length > 0 && finalChapters[0].startIndex > 0) {
+              // Just snap to 0 if close
+              finalChapters[0].startIndex = 0;
+              finalChapters[0].wordCount += finalChapters[0].startIndex; 
+          }
+      }
+      
+      console.log(`[PDF Analysis] Final Chapters: ${finalChapters.length}`);
+
+      resolve({
+          words: allWords,
+          chapters: finalChapters,
+          rawText: fullRawTextForFallback,
+          ...buildStructure(allWords, paragraphEnds),
+          sourceMap: { pageStarts, itemStarts }
+      });
+
+    } catch (error) {
+        console.error("PDF Extraction Error", error);
+        reject(error);
+    }
+  });
+};
+
+
+registerFormat({
+    id: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    extract: extractTextFromPDF
+});
@@ -0,0 +1,39 @@
+import { ProcessedText } from '@/lib/file-utils';
+
+// A supported import format. Each extractor module registers itself on import.
+export interface FileFormat {
+    id: string;
+    label: string; // Shown in the Dropzone, e.g. "PDF"
+    extensions: string[]; // Lower-case, with leading dot
+    mimeTypes: string[];
+    extract: (file: File) => Promise<ProcessedText>;
+}
+
+const formats: FileFormat[] = [];
+
+export const registerFormat = (format: FileFormat) => {
+    const existing = formats.findIndex(f => f.id === format.id);
+    if (existing !== -1) formats[existing] = format; // HMR re-registers modules
+    else formats.push(format);
+};
+
+export const getFormats = (): readonly FileFormat[] => formats;
+
+export const findFormat = (file: File): FileFormat | undefined => {
+    const name = file.name.toLowerCase();
+    // Extension first: browsers report .md and .html inconsistently (often text/plain or "")
+    return formats.find(f => f.extensions.some(ext => name.endsWith(ext)))
+        || formats.find(f => file.type !== '' && f.mimeTypes.includes(file.type));
+};
+
+// Value for <input type="file" accept="...">
+export const getAcceptAttribute = () =>
+    formats.flatMap(f => [...f.extensions, ...f.mimeTypes]).join(',');
+
+export const getFormatLabels = () => formats.map(f => f.label).join(' / ');
+
+export const extractTextFromFile = async (file: File): Promise<ProcessedText> => {
+    const format = findFormat(file);
+    if (!format) throw new Error('Unsupported file type');
+    return format.extract(file);
+};
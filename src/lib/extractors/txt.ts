@@ -0,0 +1,27 @@
+import { buildStructure, detectChapters, paragraphsToWords, ProcessedText, splitParagraphs } from '@/lib/file-utils';
+import { registerFormat } from './registry';
+
+// Also used for pasted text, which has no File behind it
+export const processPlainText = (text: string): ProcessedText => {
+    const { words, paragraphEnds } = paragraphsToWords(splitParagraphs(text));
+    const { chapters } = detectChapters(text); // Use raw text for detection structure
+    
+    // Fix up chapter word counts/indices based on cleaned words
+    return {
+        words,
+        chapters,
+        rawText: text,
+        ...buildStructure(words, paragraphEnds)
+    };
+};
+
+export const extractTextFromTXT = async (file: File): Promise<ProcessedText> =>
+    processPlainText(await file.text());
+
+registerFormat({
+    id: 'txt',
+    label: 'TXT',
+    extensions: ['.txt'],
+    mimeTypes: ['text/plain'],
+    extract: extractTextFromTXT
+});
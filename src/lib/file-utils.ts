@@ -1,17 +1,28 @@
-// We use dynamic import for pdfjs-dist to avoid "DOMMatrix is not defined" error during Next.js SSR
-// as pdfjs-dist (modern build) relies on browser APIs at the top level.
+// Shared text processing for the format extractors in lib/extractors.
 import { Chapter } from '@/store/useStore';
+import { findSentenceEnds } from '@/lib/sentences';
+import { SourceMap } from '@/lib/source-map';
 
-export interface ProcessedText {
+// Paragraph and sentence boundaries over the flat word stream, persisted with the document
+export interface DocumentStructure {
+    paragraphEnds: number[]; // Index of the last word of each paragraph, ascending
+    sentenceEnds: number[]; // Index of the last word of each sentence (paragraph ends included)
+}
+
+export interface ProcessedText extends DocumentStructure {
     words: string[];
     chapters: Chapter[];
     rawText: string;
+    sourceMap?: SourceMap; // Paginated formats only (PDF)
 }
 
 // ---------------------------
 // Text Processing & Cleaning
 // ---------------------------
-const cleanText = (text: string): string => {
+// Anything but letters, digits, whitespace, common punctuation and currency
+const GARBAGE_CHARS = /[^\w\s.,!?:;"'()\-\u2010-\u2019\u00C0-\u017F0-9$%]/g;
+
+export const cleanText = (text: string): string => {
    return text
        // 1. Fix broken hyphenated words across lines (e.g. "exam-\nple" -> "example")
        .replace(/(\w)-\s*\n\s*(\w)/g, '$1$2')
@@ -32,22 +43,55 @@ const cleanText = (text: string): string => {
        // Keep: Letters, Numbers, Punctuation (.,!?:;"'()-), Currency, basic math
        // Remove: Control chars, weird unicode artifacts
        // This regex keeps standard text characters.
-       .replace(/[^\w\s.,!?:;"'()\-\u2010-\u2019\u00C0-\u017F0-9$%]/g, ' ')
+       .replace(GARBAGE_CHARS, ' ')
        
        .trim();
 };
 
-const processedToWords = (cleanedText: string): string[] => {
+// cleanText without the line-based rules (hyphenated line breaks, trailing page numbers),
+// for fragments like PDF text items whose line context the caller handles
+export const cleanFragment = (text: string): string =>
+    text.replace(/\.{3,}/g, ' ').replace(/\s+/g, ' ').replace(GARBAGE_CHARS, ' ').trim();
+
+export const processedToWords = (cleanedText: string): string[] => {
     return cleanedText.split(/\s+/).filter(w => w.length > 0);
 };
 
-export const detectChapters = (fullText: string): { words: string[], chapters: Chapter[] } => {
-    // Strategy: Fallback Text Heuristic
-    // Used when Font Analysis fails (e.g. simple text file or uniform font PDF)
-    
-    // REFACTOR: This is the fallback "Text Scan" method.
-    
-    const words = processedToWords(fullText);
+// ---------------------------
+// Document Structure
+// ---------------------------
+
+// Sentence ends follow from the words; the last word always closes a paragraph
+export const buildStructure = (words: string[], paragraphEnds: number[]): DocumentStructure => {
+    const ends = [...new Set(paragraphEnds)].filter(i => i >= 0 && i < words.length).sort((a, b) => a - b);
+    if (words.length > 0 && ends[ends.length - 1] !== words.length - 1) ends.push(words.length - 1);
+    return { paragraphEnds: ends, sentenceEnds: findSentenceEnds(words, ends) };
+};
+
+// Blank lines separate paragraphs; text without any uses single line breaks instead
+// (after rejoining words hyphenated across those lines)
+export const splitParagraphs = (text: string): string[] => {
+    const blocks = /\n\s*\n/.test(text)
+        ? text.split(/\n\s*\n/)
+        : text.replace(/(\w)-\s*\n\s*(\w)/g, '$1$2').split(/\n/);
+    return blocks.filter(b => b.trim().length > 0);
+};
+
+// Clean each paragraph on its own and record where it ends
+export const paragraphsToWords = (paragraphs: string[]): { words: string[], paragraphEnds: number[] } => {
+    const words: string[] = [];
+    const paragraphEnds: number[] = [];
+    for (const paragraph of paragraphs) {
+        const paragraphWords = processedToWords(cleanText(paragraph));
+        if (paragraphWords.length === 0) continue;
+        words.push(...paragraphWords);
+        paragraphEnds.push(words.length - 1);
+    }
+    return { words, paragraphEnds };
+};
+
+// Chapter headings found by the text heuristic, as character offsets into `fullText`
+export const findChapterHeadings = (fullText: string): { title: string, index: number }[] => {
     const chapters: { title: string, index: number }[] = [];
     
     // 1. Explicit Headers (Chapter 1, 1. Introduction)
@@ -66,16 +110,26 @@ export const detectChapters = (fullText: string): { words: string[], chapters: C
         });
     }
 
-    if (chapters.length === 0) {
-        return { words, chapters: [{ title: 'Full Text', startIndex: 0, wordCount: words.length }] };
-    }
-
     chapters.sort((a, b) => a.index - b.index);
 
-    const uniqueChapters = chapters.filter((c, i) => {
+    return chapters.filter((c, i) => {
         if (i === 0) return true;
         return c.index - chapters[i-1].index > 100; 
     });
+};
+
+export const detectChapters = (fullText: string): { words: string[], chapters: Chapter[] } => {
+    // Strategy: Fallback Text Heuristic
+    // Used when Font Analysis fails (e.g. simple text file or uniform font PDF)
+    
+    // REFACTOR: This is the fallback "Text Scan" method.
+    
+    const words = processedToWords(fullText);
+    const uniqueChapters = findChapterHeadings(fullText);
+
+    if (uniqueChapters.length === 0) {
+        return { words, chapters: [{ title: 'Full Text', startIndex: 0, wordCount: words.length }] };
+    }
 
     const finalChapters: Chapter[] = [];
     let currentWordTotal = 0;
@@ -108,211 +162,100 @@ export const detectChapters = (fullText: string): { words: string[], chapters: C
     return { words, chapters: finalChapters };
 };
 
+
+// Build chapters from explicit heading positions (EPUB TOC, Markdown/HTML/DOCX headings).
+// Falls back to the text heuristic when the document has no usable headings.
+export const chaptersFromHeadings = (
+    headings: { title: string, startIndex: number }[],
+    totalWords: number,
+    fallbackText: string
+): Chapter[] => {
+    const sorted: Chapter[] = [];
+    [...headings]
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .forEach(h => {
+            // Several headings on the same spot (e.g. "Part I" + "Chapter 1"): keep the first title
+            if (sorted.some(c => c.startIndex === h.startIndex)) return;
+            sorted.push({ title: h.title || `Section ${sorted.length + 1}`, startIndex: h.startIndex, wordCount: 0 });
+        });
+
+    if (sorted.length === 0) {
+        return detectChapters(fallbackText).chapters;
+    }
+
+    if (sorted[0].startIndex > 0) {
+        sorted.unshift({ title: 'Start', startIndex: 0, wordCount: 0 });
+    }
+
+    return sorted.map((c, i) => ({
+        ...c,
+        wordCount: (sorted[i + 1]?.startIndex ?? totalWords) - c.startIndex
+    })).filter(c => c.wordCount > 0);
+};
+
 // ---------------------------
-// Extractors
+// DOM Text (EPUB / HTML)
 // ---------------------------
 
-export const extractTextFromTXT = async (file: File): Promise<ProcessedText> => {
-    const text = await file.text();
-    const cleaned = cleanText(text);
-    const words = processedToWords(cleaned);
-    const { chapters } = detectChapters(text); // Use raw text for detection structure
-    
-    // Fix up chapter word counts/indices based on cleaned words
-    return {
-        words,
-        chapters,
-        rawText: text
+// Elements whose boundaries separate words (textContent alone would glue "Title</h1><p>Text")
+const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE',
+    'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE',
+    'SECTION', 'TABLE', 'TD', 'TH', 'TR', 'UL',
+]);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'HEAD', 'TITLE', 'NOSCRIPT', 'TEMPLATE']);
+
+// Node.TEXT_NODE / Node.ELEMENT_NODE, spelled out so this also runs on the server (linkedom has no global Node)
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+export interface DomTextResult {
+    text: string; // Blocks are separated by blank lines (see splitParagraphs)
+    anchors: Record<string, number>; // element id -> character offset in `text`
+    headings: { title: string, level: number, offset: number }[];
+}
+
+// Flatten an element into text while remembering where ids and headings start
+export const collectElementText = (root: Element): DomTextResult => {
+    let text = '';
+    const anchors: Record<string, number> = {};
+    const headings: DomTextResult['headings'] = [];
+
+    const walk = (node: Node) => {
+        if (node.nodeType === TEXT_NODE) {
+            // Source line breaks inside a block are just spaces
+            text += (node.textContent || '').replace(/\s+/g, ' ');
+            return;
+        }
+        if (node.nodeType !== ELEMENT_NODE) return;
+
+        const el = node as Element;
+        const tag = el.tagName.toUpperCase();
+        if (SKIPPED_TAGS.has(tag)) return;
+
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (isBlock) text += '\n\n';
+
+        const id = el.getAttribute('id');
+        if (id && anchors[id] === undefined) anchors[id] = text.length;
+
+        const headingMatch = /^H([1-6])$/.exec(tag);
+        if (headingMatch) {
+            headings.push({
+                title: (el.textContent || '').replace(/\s+/g, ' ').trim(),
+                level: Number(headingMatch[1]),
+                offset: text.length
+            });
+        }
+
+        el.childNodes.forEach(walk);
+        if (isBlock) text += '\n\n';
     };
-};
 
-export const extractTextFromPDF = async (file: File): Promise<ProcessedText> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const pdfjsLib = await import('pdfjs-dist');
-      
-      if (typeof window !== 'undefined') {
-          pdfjsLib.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
-      }
-
-      const arrayBuffer = await file.arrayBuffer();
-      const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-      const pdf = await loadingTask.promise;
-      
-      // Data containers
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let globalItems: any[] = [];
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const allPageItems: { items: any[], text: string }[] = [];
-      let fullRawTextForFallback = '';
-      
-      // ---------------------------------------------------------
-      // PASS 1: Extract All Items & Text
-      // ---------------------------------------------------------
-      for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const textContent = await page.getTextContent();
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const items = textContent.items as any[];
-          
-          globalItems = globalItems.concat(items);
-          
-          const pageRawText = items.map(item => item.str).join(' ');
-          const pageCleanedText = cleanText(pageRawText);
-          
-          allPageItems.push({
-              items,
-              text: pageCleanedText
-          });
-          
-          fullRawTextForFallback += pageRawText + '\n\n';
-      }
-
-      // ---------------------------------------------------------
-      // PASS 2: Font Statistics (Find Body Text Size)
-      // ---------------------------------------------------------
-      const heightCounts: Record<number, number> = {};
-      globalItems.forEach(item => {
-           // item.transform[0] is usually font size (if unrotated)
-           // Round to 2 decimals to group effectively
-           const h = Math.round(item.transform[0] * 100) / 100;
-           if (h > 0) heightCounts[h] = (heightCounts[h] || 0) + 1;
-      });
-      
-      let bodyHeight = 0;
-      let maxCount = 0;
-      for (const hStr in heightCounts) {
-          const count = heightCounts[hStr];
-          if (count > maxCount) {
-              maxCount = count;
-              bodyHeight = parseFloat(hStr);
-          }
-      }
-      
-      console.log(`[PDF Analysis] Body Font Size: ${bodyHeight}. Threshold for Header: ${bodyHeight * 1.15}`);
-
-      // ---------------------------------------------------------
-      // PASS 3: Detect Headers & Build Chapters
-      // ---------------------------------------------------------
-      const detectedChapters: Chapter[] = [];
-      let currentWordTotal = 0;
-      
-      // Threshold: Text significantly larger than body is a header
-      // e.g., 15% larger
-      const isHeader = (h: number) => h > bodyHeight * 1.15;
-
-      for (const pageData of allPageItems) {
-          const pageWords = processedToWords(pageData.text);
-          const pageTotalWords = pageWords.length;
-          
-          // Scan items on this page
-          for (let i = 0; i < pageData.items.length; i++) {
-              const item = pageData.items[i];
-              const h = Math.round(item.transform[0] * 100) / 100;
-              
-              if (isHeader(h) && item.str.trim().length > 1) { // Ignore single stray chars
-                   const title = item.str.trim();
-                   
-                   // Check if we should merge with previous chapter (if it was very recent/consecutive)
-                   const prevChapter = detectedChapters[detectedChapters.length - 1];
-                   
-                   // Heuristic: If previous chapter has same start index (same page, near same spot?) 
-                   // OR if we just added it?
-                   
-                   // Simplifying: 
-                   // To find the exact word index of THIS item is hard because `cleanText` shifts everything.
-                   // Approximation: 
-                   // Calculate words in the text BEFORE this item on this page.
-                   const rawTextBefore = pageData.items.slice(0, i).map(it => it.str).join(' ');
-                   const wordsBefore = processedToWords(cleanText(rawTextBefore)).length;
-                   
-                   const startIndex = currentWordTotal + wordsBefore;
-
-                   // Validation: Don't add if very close to previous (likely multi-line title)
-                   if (prevChapter && startIndex - prevChapter.startIndex < 20) {
-                        // Merge title
-                        prevChapter.title += ' ' + title;
-                   } else {
-                       // New Chapter
-                       detectedChapters.push({
-                           title: title,
-                           startIndex: startIndex,
-                           wordCount: 0 
-                       });
-                   }
-              }
-          }
-          
-          currentWordTotal += pageTotalWords;
-      }
-
-      // ---------------------------------------------------------
-      // PASS 4: Post-Process & Fallback
-      // ---------------------------------------------------------
-      
-      let finalChapters = detectedChapters;
-
-      // Filter: Clean up titles
-      finalChapters = finalChapters.map(c => ({
-          ...c,
-          title: c.title.replace(/\s+/g, ' ').trim()
-      }));
-
-      // Filter: Remove "Chapter" if it's just the word alone? No, "Chapter 1" logic handles merged.
-
-      // FALLBACK: If we didn't find reasonable chapters (e.g. font size is uniform), use Text Heuristic
-      if (finalChapters.length < 2) {
-          console.warn("[PDF Analysis] Semantic Font Analysis found too few chapters. Falling back to Text Heuristic.");
-          const fallbackResult = detectChapters(fullRawTextForFallback);
-          finalChapters = fallbackResult.chapters;
-      } else {
-           // Calculate Word Counts for Font-based chapters
-           for (let i = 0; i < finalChapters.length; i++) {
-              const current = finalChapters[i];
-              const next = finalChapters[i + 1];
-              if (next) {
-                  current.wordCount = next.startIndex - current.startIndex;
-              } else {
-                  current.wordCount = currentWordTotal - current.startIndex;
-              }
-          }
-          // Ensure first chapter starts at 0 or add Intro
-          if (finalChapters.length > 0 && finalChapters[0].startIndex > 50) {
-               finalChapters.unshift({
-                   title: 'Start',
-                   startIndex: 0,
-                   wordCount: finalChapters[0].startIndex
-               });
-          } else if (finalChapters.length > 0 && finalChapters[0].startIndex > 0) {
-              // Just snap to 0 if close
-              finalChapters[0].startIndex = 0;
-              finalChapters[0].wordCount += finalChapters[0].startIndex; 
-          }
-      }
-      
-      console.log(`[PDF Analysis] Final Chapters: ${finalChapters.length}`);
-
-      const allWords = allPageItems.flatMap(p => processedToWords(p.text));
-
-      resolve({
-          words: allWords,
-          chapters: finalChapters,
-          rawText: fullRawTextForFallback
-      });
-
-    } catch (error) {
-        console.error("PDF Extraction Error", error);
-        reject(error);
-    }
-  });
+    walk(root);
+    return { text, anchors, headings };
 };
 
-export const extractTextFromFile = async (file: File): Promise<ProcessedText> => {
-    if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-        return extractTextFromPDF(file);
-    } else if (file.type === 'text/plain' || file.name.endsWith('.txt')) {
-        return extractTextFromTXT(file);
-    } else {
-        throw new Error('Unsupported file type');
-    }
-};
+// Word index of a character offset inside `text`
+export const wordIndexAt = (text: string, offset: number): number =>
+    processedToWords(cleanText(text.slice(0, offset))).length;
@@ -0,0 +1,94 @@
+// Cloze flashcards from remembered sentences, scheduled with SM-2
+// (https://super-memory.com/english/ol/sm2.htm): each card keeps its own ease factor and interval.
+import { BLANK, STOPWORDS } from '@/lib/quiz';
+
+export interface Flashcard {
+    id: string;
+    fileId: string;
+    fileName: string; // Kept so cards survive deleting the file
+    startIndex: number; // Source sentence in the document's words, [start, end)
+    endIndex: number;
+    words: string[]; // Copy of the sentence
+    blank: number; // Index into `words` of the hidden word
+    ease: number;
+    interval: number; // Days
+    repetitions: number; // Successful reviews in a row
+    due: number; // ms timestamp
+    createdAt: number;
+}
+
+// Answer buttons mapped onto SM-2 quality (0-5)
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}'-]+/gu, '');
+
+// Longest content word, skipping the opener (its capital letter gives it away); -1 if none
+export const pickClozeWord = (words: string[]) => {
+    let best = -1;
+    let bestLength = 3;
+    words.forEach((word, i) => {
+        const key = normalize(word);
+        if (i === 0 || /\d/.test(key) || STOPWORDS.has(key)) return;
+        if (key.length > bestLength) {
+            best = i;
+            bestLength = key.length;
+        }
+    });
+    return best;
+};
+
+export const createFlashcard = (
+    fileId: string,
+    fileName: string,
+    words: string[],
+    startIndex: number,
+    endIndex: number,
+    now = Date.now()
+): Flashcard | null => {
+    const sentence = words.slice(startIndex, endIndex);
+    const blank = pickClozeWord(sentence);
+    if (blank === -1) return null;
+    return {
+        id: `${now}-${fileId}-${startIndex}`,
+        fileId,
+        fileName,
+        startIndex,
+        endIndex,
+        words: sentence,
+        blank,
+        ease: INITIAL_EASE,
+        interval: 0,
+        repetitions: 0,
+        due: now, // New cards are due right away
+        createdAt: now,
+    };
+};
+
+// The sentence with the answer hidden (punctuation around it is kept)
+export const getClozeWords = (card: Flashcard) =>
+    card.words.map((w, i) => (i === card.blank ? w.replace(/[\p{L}\p{N}'-]+/u, BLANK) : w));
+
+export const reviewFlashcard = (card: Flashcard, grade: ReviewGrade, now = Date.now()): Flashcard => {
+    const quality = GRADE_QUALITY[grade];
+    let { repetitions, interval } = card;
+
+    if (quality < 3) {
+        repetitions = 0;
+        interval = 1;
+    } else {
+        repetitions++;
+        interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * card.ease);
+    }
+
+    const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    return { ...card, repetitions, interval, ease, due: now + interval * DAY_MS };
+};
+
+// Due cards, most overdue first
+export const getDueFlashcards = (cards: Flashcard[], now = Date.now()) =>
+    cards.filter(c => c.due <= now).sort((a, b) => a.due - b.due);
@@ -0,0 +1,171 @@
+// Library-wide full-text search.
+// Each document's inverted index (term -> word indices) is persisted next to it in IndexedDB
+// and merged into one in-memory index the first time the library is searched.
+// Terms use the same normalization as in-document search (lib/search).
+import { RecentFile } from '@/store/useStore';
+import { loadDocument, loadLibrary, loadSearchEntries, saveSearchEntry, SearchEntry } from '@/lib/document-store';
+import { normalizeForSearch, tokenizeQuery } from '@/lib/search';
+
+const SNIPPET_WORDS = 8; // Context on each side of a hit
+const MAX_PHRASE_GAP = 2; // Words of a phrase may be separated by one punctuation-only word ("—"), nothing else
+
+export interface LibraryHit {
+    index: number;
+    snippet: string;
+    chapter: string;
+}
+
+export interface LibraryResult {
+    file: RecentFile;
+    total: number;
+    hits: LibraryHit[]; // First few, in reading order
+}
+
+// term -> fileId -> ascending word indices
+const postings = new Map<string, Map<string, number[]>>();
+const fileTerms = new Map<string, string[]>();
+const fileSkipped = new Map<string, Set<number>>(); // fileId -> word indices without a term
+let loadPromise: Promise<void> | null = null;
+
+export const buildSearchEntry = (id: string, words: string[]): SearchEntry => {
+    const terms: Record<string, number[]> = {};
+    const skipped: number[] = [];
+    words.forEach((word, i) => {
+        const term = normalizeForSearch(word);
+        if (!term) {
+            skipped.push(i);
+            return;
+        }
+        (terms[term] ||= []).push(i);
+    });
+    return { id, terms, skipped };
+};
+
+const addEntry = (entry: SearchEntry) => {
+    removeFromIndex(entry.id);
+    const terms = Object.keys(entry.terms);
+    for (const term of terms) {
+        let files = postings.get(term);
+        if (!files) postings.set(term, files = new Map());
+        files.set(entry.id, entry.terms[term]);
+    }
+    fileTerms.set(entry.id, terms);
+    fileSkipped.set(entry.id, new Set(entry.skipped));
+};
+
+export const removeFromIndex = (id: string) => {
+    const terms = fileTerms.get(id);
+    if (!terms) return;
+    for (const term of terms) {
+        const files = postings.get(term);
+        files?.delete(id);
+        if (files?.size === 0) postings.delete(term);
+    }
+    fileTerms.delete(id);
+    fileSkipped.delete(id);
+};
+
+// Loads persisted entries; documents saved before the index existed (or before it recorded
+// skipped words) are indexed now
+const ensureLoaded = (): Promise<void> => {
+    if (loadPromise) return loadPromise;
+
+    loadPromise = (async () => {
+        const [entries, files] = await Promise.all([loadSearchEntries(), loadLibrary()]);
+        entries.filter(e => e.skipped).forEach(addEntry);
+
+        for (const file of files) {
+            if (fileTerms.has(file.id)) continue;
+            const doc = await loadDocument(file.id);
+            if (!doc) continue;
+            const entry = buildSearchEntry(file.id, doc.words);
+            addEntry(entry);
+            await saveSearchEntry(entry);
+        }
+    })();
+
+    loadPromise.catch(() => { loadPromise = null; });
+    return loadPromise;
+};
+
+// Called on import; persists even if the index hasn't been loaded in this session yet
+export const indexDocument = async (id: string, words: string[]): Promise<void> => {
+    const entry = buildSearchEntry(id, words);
+    await saveSearchEntry(entry);
+    if (loadPromise) addEntry(entry);
+};
+
+// First index > after that directly follows it, skipping only words without a term; or -1
+const findNext = (positions: number[], after: number, skipped: Set<number>) => {
+    let lo = 0;
+    let hi = positions.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (positions[mid] <= after) lo = mid + 1;
+        else hi = mid;
+    }
+    if (lo === positions.length || positions[lo] > after + MAX_PHRASE_GAP) return -1;
+    for (let i = after + 1; i < positions[lo]; i++) {
+        if (!skipped.has(i)) return -1;
+    }
+    return positions[lo];
+};
+
+const chapterAt = (file: RecentFile, index: number) => {
+    let title = '';
+    for (const chapter of file.chapters || []) {
+        if (chapter.startIndex > index) break;
+        title = chapter.title;
+    }
+    return title;
+};
+
+export const searchLibrary = async (
+    query: string,
+    files: RecentFile[],
+    { maxFiles = 20, maxHitsPerFile = 3 } = {}
+): Promise<LibraryResult[]> => {
+    const tokens = tokenizeQuery(query);
+    if (tokens.length === 0) return [];
+    await ensureLoaded();
+
+    const lists = tokens.map(t => postings.get(t));
+    if (lists.some(l => !l)) return [];
+
+    const matches: { file: RecentFile; starts: number[]; ends: number[] }[] = [];
+    for (const file of files) {
+        const positions = lists.map(l => l!.get(file.id));
+        if (positions.some(p => !p)) continue;
+        const skipped = fileSkipped.get(file.id) || new Set<number>();
+
+        const starts: number[] = [];
+        const ends: number[] = [];
+        for (const start of positions[0]!) {
+            let last = start;
+            for (let k = 1; k < tokens.length && last !== -1; k++) last = findNext(positions[k]!, last, skipped);
+            if (last !== -1) {
+                starts.push(start);
+                ends.push(last + 1);
+            }
+        }
+        if (starts.length > 0) matches.push({ file, starts, ends });
+    }
+
+    matches.sort((a, b) => b.starts.length - a.starts.length);
+
+    // Snippets need the text, so only read the documents that are shown
+    return Promise.all(matches.slice(0, maxFiles).map(async ({ file, starts, ends }) => {
+        const doc = await loadDocument(file.id);
+        const words = doc?.words || [];
+        const hits = starts.slice(0, maxHitsPerFile).map((index, i) => {
+            const from = Math.max(0, index - SNIPPET_WORDS);
+            const to = ends[i] + SNIPPET_WORDS;
+            return {
+                index,
+                snippet: `${from > 0 ? '…' : ''}${words.slice(from, to).join(' ')}${to < words.length ? '…' : ''}`,
+                chapter: chapterAt(file, index),
+            };
+        });
+        return { file, total: starts.length, hits };
+    }));
+};
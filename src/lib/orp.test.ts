@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getOrpIndex } from '@/lib/orp';
+
+describe('getOrpIndex', () => {
+    it.each([
+        ['', 0],
+        ['a', 0],
+        ['of', 1],
+        ['abcde', 1],
+        ['abcdef', 2],
+        ['abcdefghi', 2],
+        ['abcdefghij', 3],
+        ['abcdefghijklm', 3],
+        ['abcdefghijklmn', 4],
+        ['incomprehensibilities', 4],
+    ])('length table: %j -> %i', (word, expected) => {
+        expect(getOrpIndex(word)).toBe(expected);
+    });
+
+    it.each([
+        ['"Hello,"', 2],
+        ['Hello,', 1],
+        ['(a)', 1],
+        ['“quoted”', 3],
+        ['...wait', 4],
+        ['—', 0],
+    ])('punctuation around the word: %j -> %i', (word, expected) => {
+        expect(getOrpIndex(word)).toBe(expected);
+    });
+
+    it.each([
+        ['state-of-the-art', 1],
+        ['well-being', 6],
+        ['"self-evident."', 8],
+    ])('hyphenated compounds pivot in the longest part: %j -> %i', (word, expected) => {
+        expect(getOrpIndex(word)).toBe(expected);
+    });
+
+    it.each([
+        ['42', 0],
+        ['1,250,000', 4],
+        ['3.14159', 3],
+        ['100%', 1],
+        ['1990-2020', 4],
+    ])('numbers pivot in the middle: %j -> %i', (word, expected) => {
+        expect(getOrpIndex(word)).toBe(expected);
+    });
+
+    it('pivots a phrase in the word at its midpoint', () => {
+        // "in the garden": the midpoint (6) falls in "the"
+        expect(getOrpIndex('in the garden')).toBe(4);
+    });
+});
@@ -0,0 +1,59 @@
+// Optimal Recognition Point: the letter the eye should fixate, slightly left of centre.
+// Positions follow the usual length table (as popularised by Spritz) applied to the word's
+// core, so quotes and punctuation around it don't shift the pivot.
+
+// Core length -> pivot offset
+const orpOffset = (length: number) => {
+    if (length <= 1) return 0;
+    if (length <= 5) return 1;
+    if (length <= 9) return 2;
+    if (length <= 13) return 3;
+    return 4;
+};
+
+// [start, end) of the word without leading/trailing punctuation; the whole word if it has no letters or digits
+const getCore = (word: string) => {
+    const start = word.search(/[\p{L}\p{N}]/u);
+    if (start === -1) return { start: 0, end: word.length };
+    let end = word.length;
+    while (end > start && !/[\p{L}\p{N}]/u.test(word[end - 1])) end--;
+    return { start, end };
+};
+
+const getWordOrp = (word: string) => {
+    const { start, end } = getCore(word);
+    const core = word.slice(start, end);
+
+    // Numbers are taken in as a whole: fixate the middle ("1,250,000")
+    if (/^[\p{N}.,:/-]+$/u.test(core)) return start + Math.floor((core.length - 1) / 2);
+
+    // Hyphenated compounds: fixate within the longest part ("state-of-the-art" -> "state")
+    const parts = core.split('-');
+    if (parts.length > 1) {
+        let offset = 0;
+        let best = { offset: 0, length: 0 };
+        for (const part of parts) {
+            if (part.length > best.length) best = { offset, length: part.length };
+            offset += part.length + 1;
+        }
+        return start + best.offset + orpOffset(best.length);
+    }
+
+    return start + orpOffset(core.length);
+};
+
+// Index into `text` of the pivot character. For a phrase (phrase display mode), the pivot
+// goes into the word spanning the phrase's midpoint so the phrase stays roughly centred.
+export const getOrpIndex = (text: string) => {
+    if (text.length === 0) return 0;
+    if (!text.includes(' ')) return getWordOrp(text);
+
+    const middle = Math.floor(text.length / 2);
+    let start = 0;
+    for (const word of text.split(' ')) {
+        const end = start + word.length;
+        if (middle <= end && word.length > 0) return start + getWordOrp(word);
+        start = end + 1;
+    }
+    return middle;
+};
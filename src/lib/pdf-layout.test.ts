@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { endsWithLineHyphen, joinHyphenated, LayoutItem, orderReadingItems } from '@/lib/pdf-layout';
+
+// Synthetic pdf.js text items: 10pt text, 12pt leading, y grows upwards
+const item = (str: string, x: number, y: number, width: number): LayoutItem => ({
+    str,
+    transform: [10, 0, 0, 10, x, y],
+    width,
+});
+
+const LEFT = 50;
+const RIGHT = 310;
+const COLUMN_WIDTH = 230; // 30pt gutter between the columns
+const FULL_WIDTH = RIGHT + COLUMN_WIDTH - LEFT;
+
+// Two columns written line by line across the page, as pdf.js often returns them
+const twoColumns = (left: string[], right: string[], top = 700) =>
+    left.flatMap((text, line) => [
+        item(text, LEFT, top - line * 12, COLUMN_WIDTH),
+        item(right[line], RIGHT, top - line * 12, COLUMN_WIDTH),
+    ]);
+
+const texts = (items: LayoutItem[]) => items.map(i => i.str);
+
+describe('orderReadingItems', () => {
+    it('keeps the stream order of a single-column page', () => {
+        const items = ['First line', 'Second line', 'Third line', 'Fourth line']
+            .map((text, line) => item(text, LEFT, 700 - line * 12, FULL_WIDTH));
+        // Out of visual order on purpose: single columns are not re-sorted
+        const shuffled = [items[0], items[2], items[1], items[3]];
+        expect(orderReadingItems(shuffled)).toEqual(shuffled);
+    });
+
+    it('reads a two-column page column by column', () => {
+        const items = twoColumns(['L1', 'L2', 'L3', 'L4'], ['R1', 'R2', 'R3', 'R4']);
+        expect(texts(orderReadingItems(items))).toEqual(['L1', 'L2', 'L3', 'L4', 'R1', 'R2', 'R3', 'R4']);
+    });
+
+    it('reads a full-width heading before the columns below it', () => {
+        const items = [
+            ...twoColumns(['L1', 'L2', 'L3'], ['R1', 'R2', 'R3'], 680),
+            item('A Heading Across Both Columns', LEFT, 720, FULL_WIDTH),
+        ];
+        expect(texts(orderReadingItems(items))).toEqual([
+            'A Heading Across Both Columns', 'L1', 'L2', 'L3', 'R1', 'R2', 'R3',
+        ]);
+    });
+
+    it('reads the columns above a full-width caption before the ones below it', () => {
+        const items = [
+            ...twoColumns(['a1', 'a2', 'a3'], ['b1', 'b2', 'b3'], 700),
+            item('A caption spanning the page', LEFT, 640, FULL_WIDTH),
+            ...twoColumns(['c1', 'c2', 'c3'], ['d1', 'd2', 'd3'], 620),
+        ];
+        expect(texts(orderReadingItems(items))).toEqual([
+            'a1', 'a2', 'a3', 'b1', 'b2', 'b3', 'A caption spanning the page', 'c1', 'c2', 'c3', 'd1', 'd2', 'd3',
+        ]);
+    });
+
+    it('keeps whitespace items after the item they followed', () => {
+        const items = twoColumns(['L1', 'L2', 'L3'], ['R1', 'R2', 'R3']);
+        items.splice(1, 0, item(' ', LEFT + COLUMN_WIDTH, 700, 0));
+        expect(texts(orderReadingItems(items))).toEqual(['L1', ' ', 'L2', 'L3', 'R1', 'R2', 'R3']);
+    });
+
+    it('puts a word hyphenated at the end of a column next to its continuation', () => {
+        const items = twoColumns(
+            ['the first column', 'runs on until the', 'last line breaks infor-'],
+            ['mation into the next', 'column where it goes', 'on to the end']
+        );
+        const ordered = texts(orderReadingItems(items));
+        const at = ordered.indexOf('last line breaks infor-');
+        expect(ordered[at + 1]).toBe('mation into the next');
+    });
+});
+
+describe('hyphenated line breaks', () => {
+    it.each([
+        ['infor-', true],
+        ['infor\u00AD', true],
+        ['infor- ', true],
+        ['well', false],
+        ['1990-', false],
+        ['-', false],
+    ])('endsWithLineHyphen(%j) is %s', (text, expected) => {
+        expect(endsWithLineHyphen(text)).toBe(expected);
+    });
+
+    it.each([
+        ['infor-', 'mation', 'information'],
+        ['infor', 'mation', 'information'], // Soft hyphen already removed by cleaning
+        ['Jean-', 'Paul', null],
+        ['self-', 'Evident', null],
+        ['well-', 'known', 'well-known'],
+        ['self-', 'evident', 'self-evident'],
+        ['"Well-', 'known', '"Well-known'],
+        ['twenty-', 'one', 'twenty-one'],
+        ['state-of-the-', 'art', 'state-of-the-art'],
+        ['recog-', 'nized', 'recognized'],
+    ])('joinHyphenated(%j, %j) is %j', (head, tail, expected) => {
+        expect(joinHyphenated(head, tail)).toBe(expected);
+    });
+});
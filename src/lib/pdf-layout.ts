@@ -0,0 +1,160 @@
+// Reading order for PDF text items. pdf.js returns items in content-stream order, which in
+// two-column papers and magazine layouts often runs across both columns line by line.
+// Items are grouped into line fragments; vertical gutters that only narrow fragments stay
+// clear of give the columns. Full-width lines (titles, wide captions) split the page into
+// sections that are read top to bottom, each section column by column.
+// Pages without clear columns keep their stream order.
+// Words hyphenated across a line (or column) break are rejoined once the items are in order.
+
+export interface LayoutItem {
+    str: string;
+    transform: number[]; // [a, b, c, d, x, y], y grows upwards
+    width: number;
+}
+
+const GAP = 0.8; // Horizontal gap (in font heights) between fragments of a line; also the narrowest gutter
+const NARROW = 0.6; // Fragments narrower than this share of the text width can belong to a column
+const MIN_COLUMN_LINES = 3; // Fragments a column needs to count as one
+
+interface Fragment<T> {
+    items: T[];
+    x0: number;
+    x1: number;
+    line: number; // Index of the line, top to bottom
+    column: number; // -1 when the fragment spans a gutter
+}
+
+const fontSize = (item: LayoutItem) => Math.abs(item.transform[3]) || Math.abs(item.transform[0]) || 1;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)] || 1;
+};
+
+// Lines top to bottom, each split into fragments at gaps wider than a word space
+const buildFragments = <T extends LayoutItem>(items: T[]): Fragment<T>[] => {
+    const sorted = [...items].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+    const lines: T[][] = [];
+    for (const item of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line[0].transform[5] - item.transform[5]) <= fontSize(item) * 0.5) line.push(item);
+        else lines.push([item]);
+    }
+
+    const fragments: Fragment<T>[] = [];
+    lines.forEach((line, lineIndex) => {
+        line.sort((a, b) => a.transform[4] - b.transform[4]);
+        let current: Fragment<T> | null = null;
+        for (const item of line) {
+            const x0 = item.transform[4];
+            const x1 = x0 + Math.max(0, item.width);
+            if (current && x0 - current.x1 <= fontSize(item) * GAP) {
+                current.items.push(item);
+                current.x1 = Math.max(current.x1, x1);
+            } else {
+                current = { items: [item], x0, x1, line: lineIndex, column: -1 };
+                fragments.push(current);
+            }
+        }
+    });
+    return fragments;
+};
+
+// Column intervals [start, end], left to right; a single column when there are no gutters
+const findColumns = <T extends LayoutItem>(fragments: Fragment<T>[], size: number) => {
+    const minX = Math.min(...fragments.map(f => f.x0));
+    const maxX = Math.max(...fragments.map(f => f.x1));
+    const narrow = fragments.filter(f => f.x1 - f.x0 < (maxX - minX) * NARROW);
+    // Mostly full-width lines: a single column
+    if (narrow.length < fragments.length / 2) return [{ start: minX, end: maxX }];
+
+    // 1pt bins over the text area, marked where a narrow fragment covers them
+    const covered = new Uint8Array(Math.ceil(maxX - minX) + 1);
+    for (const f of narrow) covered.fill(1, Math.floor(f.x0 - minX), Math.ceil(f.x1 - minX) + 1);
+
+    const gutters: { start: number; end: number }[] = [];
+    let runStart = -1;
+    covered.forEach((c, i) => {
+        if (!c && runStart === -1) runStart = i;
+        if (c && runStart !== -1) {
+            if (i - runStart >= size * GAP) gutters.push({ start: minX + runStart, end: minX + i });
+            runStart = -1;
+        }
+    });
+
+    const toColumns = () => gutters.map((g, i) => ({ start: i === 0 ? minX : gutters[i - 1].end, end: g.start }))
+        .concat({ start: gutters.length > 0 ? gutters[gutters.length - 1].end : minX, end: maxX });
+    const linesIn = (column: { start: number; end: number }) =>
+        narrow.filter(f => f.x0 >= column.start - size && f.x1 <= column.end + size).length;
+
+    // Drop gutters next to columns too thin to be real (tables, stray labels)
+    let columns = toColumns();
+    let thin = columns.findIndex(c => linesIn(c) < MIN_COLUMN_LINES);
+    while (thin !== -1 && gutters.length > 0) {
+        gutters.splice(Math.min(thin, gutters.length - 1), 1);
+        columns = toColumns();
+        thin = columns.findIndex(c => linesIn(c) < MIN_COLUMN_LINES);
+    }
+    return columns;
+};
+
+// Items of one page in reading order. Whitespace-only items travel with the item before them.
+export const orderReadingItems = <T extends LayoutItem>(items: T[]): T[] => {
+    const textItems = items.filter(item => item.str.trim());
+    if (textItems.length === 0) return items;
+
+    const fragments = buildFragments(textItems);
+    const size = median(textItems.map(fontSize));
+    const columns = findColumns(fragments, size);
+    if (columns.length < 2) return items;
+
+    for (const f of fragments) {
+        f.column = columns.findIndex(c => f.x0 >= c.start - size && f.x1 <= c.end + size);
+    }
+
+    // Each full-width line closes a section; column fragments belong to the section they sit in
+    const spanningLines = [...new Set(fragments.filter(f => f.column === -1).map(f => f.line))].sort((a, b) => a - b);
+    const sectionOf = (line: number) => spanningLines.filter(l => l < line).length;
+
+    const ordered: Fragment<T>[] = [];
+    for (let s = 0; s <= spanningLines.length; s++) {
+        ordered.push(...fragments
+            .filter(f => f.column !== -1 && sectionOf(f.line) === s)
+            .sort((a, b) => a.column - b.column || a.line - b.line || a.x0 - b.x0));
+        if (s < spanningLines.length) {
+            ordered.push(...fragments.filter(f => f.column === -1 && f.line === spanningLines[s]));
+        }
+    }
+
+    // Re-attach whitespace items (spaces, EOL markers) after their preceding text item
+    const trailing = new Map<T, T[]>();
+    const leading: T[] = [];
+    let previous: T | null = null;
+    for (const item of items) {
+        if (item.str.trim()) previous = item;
+        else if (previous) trailing.set(previous, [...(trailing.get(previous) || []), item]);
+        else leading.push(item);
+    }
+
+    return leading.concat(ordered.flatMap(f => f.items.flatMap(item => [item, ...(trailing.get(item) || [])])));
+};
+
+// Text item ending a line mid-word: "infor-" (or a soft hyphen, which cleaning removes)
+export const endsWithLineHyphen = (text: string) => /\p{L}[-\u00AD]$/u.test(text.trimEnd());
+
+// Words that take a hyphen of their own in compounds: "well-" + "known" stays "well-known"
+const COMPOUND_HEADS = new Set([
+    'all', 'cross', 'ex', 'far', 'full', 'half', 'high', 'ill', 'long', 'low', 'much', 'near',
+    'self', 'short', 'so', 'well', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy',
+    'eighty', 'ninety',
+]);
+
+// "infor-" + "mation" -> "information"; null when the next line doesn't continue the word
+// (a capital means a compound or name broken at its hyphen: "Jean-" + "Paul").
+// Compounds keep their hyphen: known compound heads, and heads already hyphenated ("state-of-the-").
+export const joinHyphenated = (head: string, tail: string): string | null => {
+    if (!/^\p{Ll}/u.test(tail)) return null;
+    if (!head.endsWith('-')) return head + tail;
+    const stem = head.slice(0, -1).replace(/^[^\p{L}]+/u, '').toLowerCase();
+    return stem.includes('-') || COMPOUND_HEADS.has(stem) ? head + tail : head.slice(0, -1) + tail;
+};
@@ -0,0 +1,76 @@
+// Phrase chunking for the multi-word RSVP mode: groups the word stream into short,
+// natural phrases ("in the garden", "she said,") instead of one word at a time.
+// A phrase breaks after punctuation, before a function word once it already has a
+// content word (so "of the" leads into its noun), or when it gets too long. It always
+// breaks at a paragraph end, so an unpunctuated heading stays on its own.
+
+const MAX_PHRASE_WORDS = 3;
+const MAX_PHRASE_CHARS = 20; // Keeps phrases within the Redicle frame
+
+// Words that lean on the next word
+const FUNCTION_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'so', 'yet', 'if', 'as', 'than', 'that',
+    'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'onto', 'upon',
+    'about', 'over', 'under', 'after', 'before', 'through', 'between', 'without', 'within',
+    'my', 'your', 'his', 'her', 'its', 'our', 'their', 'this', 'these', 'those',
+    'not', 'no', 'very', 'who', 'which', 'when', 'where', 'while', 'because',
+]);
+
+export interface Phrase {
+    start: number;
+    end: number; // Exclusive
+}
+
+const normalize = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+const endsClause = (word: string) => /[.?!…,;:–—]["'”’)\]]*$/.test(word);
+
+// phraseStarts[i] = index of the first word of the phrase containing word i.
+// Cached per content array (and paragraph ends), like the timing model.
+const startsCache = new WeakMap<string[], { paragraphEnds?: readonly number[]; starts: Int32Array }>();
+
+const getPhraseStarts = (words: string[], paragraphEnds?: readonly number[]) => {
+    const cached = startsCache.get(words);
+    if (cached && cached.paragraphEnds === paragraphEnds) return cached.starts;
+
+    const isParagraphEnd = new Uint8Array(words.length);
+    paragraphEnds?.forEach(i => { if (i >= 0 && i < words.length) isParagraphEnd[i] = 1; });
+
+    const starts = new Int32Array(words.length);
+    let start = 0;
+    let chars = 0;
+    let hasContentWord = false;
+
+    words.forEach((word, i) => {
+        const isFunction = FUNCTION_WORDS.has(normalize(word));
+        const length = i - start;
+        const breakBefore = length > 0 && (
+            length >= MAX_PHRASE_WORDS ||
+            endsClause(words[i - 1]) ||
+            isParagraphEnd[i - 1] === 1 ||
+            (isFunction && hasContentWord) ||
+            chars + 1 + word.length > MAX_PHRASE_CHARS
+        );
+        if (breakBefore) {
+            start = i;
+            chars = 0;
+            hasContentWord = false;
+        }
+        starts[i] = start;
+        chars += (i > start ? 1 : 0) + word.length;
+        hasContentWord ||= !isFunction;
+    });
+
+    startsCache.set(words, { paragraphEnds, starts });
+    return starts;
+};
+
+// The phrase containing `index`
+export const getPhraseAt = (words: string[], index: number, paragraphEnds?: readonly number[]): Phrase => {
+    if (words.length === 0) return { start: 0, end: 0 };
+    const starts = getPhraseStarts(words, paragraphEnds);
+    const i = Math.max(0, Math.min(index, words.length - 1));
+    let end = i + 1;
+    while (end < words.length && starts[end] === starts[i]) end++;
+    return { start: starts[i], end };
+};
@@ -0,0 +1,146 @@
+// Comprehension quizzes built locally from a chapter's words (no network, no model):
+// - cloze: a key sentence with its most topical word blanked, four choices
+// - order: two sentences from different parts of the chapter, which came first?
+// Generation is seeded by the chapter position, so reopening a quiz shows the same questions.
+import { isSentenceEnd } from '@/lib/sentences';
+
+export interface QuizQuestion {
+    id: string;
+    type: 'cloze' | 'order';
+    prompt: string;
+    options: string[];
+    answer: number; // Index into options
+}
+
+export const MIN_QUIZ_WORDS = 300; // Shorter chapters don't have enough material
+
+const CLOZE_QUESTIONS = 3;
+const ORDER_QUESTIONS = 2;
+const MIN_SENTENCE_WORDS = 8;
+const MAX_SENTENCE_WORDS = 40;
+const MIN_KEYWORD_LENGTH = 5;
+export const BLANK = '_____';
+
+// Long function words that would make trivial blanks (also used by lib/flashcards)
+export const STOPWORDS = new Set([
+    'about', 'above', 'after', 'again', 'against', 'among', 'because', 'before', 'being', 'below',
+    'between', 'could', 'during', 'every', 'other', 'their', 'there', 'these', 'those', 'through',
+    'under', 'until', 'where', 'which', 'while', 'would', 'should', 'might', 'shall', 'still',
+    'however', 'although', 'without', 'within', 'whether', 'itself', 'themselves', 'something',
+]);
+
+interface Sentence {
+    start: number; // Word index within the chapter
+    words: string[];
+}
+
+// Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T>(items: T[], random: () => number) => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}'-]+/gu, '');
+
+const splitSentences = (words: string[]): Sentence[] => {
+    const sentences: Sentence[] = [];
+    let start = 0;
+    words.forEach((word, i) => {
+        if (isSentenceEnd(word) || i === words.length - 1) {
+            sentences.push({ start, words: words.slice(start, i + 1) });
+            start = i + 1;
+        }
+    });
+    return sentences.filter(s => s.words.length >= MIN_SENTENCE_WORDS && s.words.length <= MAX_SENTENCE_WORDS);
+};
+
+const excerpt = (sentence: Sentence, maxWords = 14) =>
+    sentence.words.length > maxWords ? `${sentence.words.slice(0, maxWords).join(' ')}…` : sentence.words.join(' ');
+
+export const generateQuiz = (chapterWords: string[], seed: number): QuizQuestion[] => {
+    if (chapterWords.length < MIN_QUIZ_WORDS) return [];
+    const random = createRandom(seed);
+    const sentences = splitSentences(chapterWords);
+
+    // Keywords: longer words, weighted by how often the chapter uses them
+    const frequency = new Map<string, number>();
+    for (const word of chapterWords) {
+        const key = normalize(word);
+        if (key.length < MIN_KEYWORD_LENGTH || /\d/.test(key) || STOPWORDS.has(key)) continue;
+        frequency.set(key, (frequency.get(key) || 0) + 1);
+    }
+    const keywords = [...frequency.keys()];
+
+    const questions: QuizQuestion[] = [];
+
+    // --- Cloze ---
+    const scored = sentences
+        .map(sentence => {
+            // Skip the first word: a capitalized sentence opener gives the answer away
+            const candidates = sentence.words.slice(1).map(normalize).filter(w => frequency.has(w));
+            const best = candidates.sort((a, b) => frequency.get(b)! - frequency.get(a)!)[0];
+            const score = candidates.reduce((sum, w) => sum + Math.log(1 + frequency.get(w)!), 0);
+            return { sentence, best, score };
+        })
+        .filter(s => s.best && frequency.get(s.best)! > 1)
+        .sort((a, b) => b.score - a.score);
+
+    const usedAnswers = new Set<string>();
+    for (const { sentence, best } of scored) {
+        if (questions.length >= CLOZE_QUESTIONS) break;
+        if (usedAnswers.has(best)) continue;
+
+        // Similar-looking words from the same chapter, none of which appear in the sentence itself
+        const inSentence = new Set(sentence.words.map(normalize));
+        const distractors = shuffle(
+            keywords.filter(k => !inSentence.has(k) && Math.abs(k.length - best.length) <= 3),
+            random
+        ).slice(0, 3);
+        if (distractors.length < 3) continue;
+        usedAnswers.add(best);
+
+        // Blank every occurrence so the sentence doesn't answer itself
+        const prompt = sentence.words
+            .map(w => (normalize(w) === best ? w.replace(/[\p{L}\p{N}'-]+/u, BLANK) : w))
+            .join(' ');
+        const options = shuffle([best, ...distractors], random);
+        questions.push({
+            id: `cloze-${sentence.start}`,
+            type: 'cloze',
+            prompt,
+            options,
+            answer: options.indexOf(best),
+        });
+    }
+
+    // --- Ordering: one sentence from the first half, one from the second ---
+    const half = chapterWords.length / 2;
+    const early = shuffle(sentences.filter(s => s.start < half * 0.8), random);
+    const late = shuffle(sentences.filter(s => s.start > half * 1.2), random);
+    for (let i = 0, added = 0; added < ORDER_QUESTIONS && i < Math.min(early.length, late.length); i++) {
+        if (excerpt(early[i]) === excerpt(late[i])) continue; // Repeated text can't be ordered
+        added++;
+        const options = shuffle([early[i], late[i]], random);
+        questions.push({
+            id: `order-${early[i].start}-${late[i].start}`,
+            type: 'order',
+            prompt: 'Which of these came first in the chapter?',
+            options: options.map(s => excerpt(s)),
+            answer: options.indexOf(early[i]),
+        });
+    }
+
+    return questions;
+};
@@ -0,0 +1,138 @@
+// Reading statistics derived from the session log (recorded by hooks/useReadingSession).
+// Everything here is pure: sessions in, totals out.
+import { RecentFile } from '@/store/useStore';
+
+export interface ReadingSession {
+    id: string;
+    fileId: string;
+    fileName: string; // Kept so history survives deleting the file
+    start: number; // ms timestamp
+    end: number;
+    startIndex: number;
+    endIndex: number;
+    words: number; // Words actually advanced through (seeks excluded)
+    settingWpm: number; // Nominal `wpm` at the start of the session
+}
+
+// Score of one chapter quiz (see lib/quiz), logged next to the sessions
+export interface QuizResult {
+    id: string;
+    fileId: string;
+    fileName: string;
+    chapterTitle: string;
+    chapterStart: number;
+    correct: number;
+    total: number;
+    wpm: number; // Nominal speed the chapter was read at
+    timestamp: number;
+}
+
+export interface DailyTotal {
+    date: string; // Local YYYY-MM-DD
+    words: number;
+    ms: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PACE_WINDOW_MS = 30 * DAY_MS; // Measured pace uses the last 30 days
+const MIN_PACE_WORDS = 300; // Below this a measured pace is too noisy to use
+
+export const sessionDuration = (s: ReadingSession) => Math.max(0, s.end - s.start);
+
+// Effective words per minute, or null when there is nothing to measure
+export const effectiveWpm = (words: number, ms: number) => (ms > 0 && words > 0 ? Math.round(words / (ms / 60000)) : null);
+
+export const toDateKey = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Last `days` days including today, oldest first; days without reading are zero
+export const getDailyTotals = (sessions: ReadingSession[], days: number, now = Date.now()): DailyTotal[] => {
+    const totals = new Map<string, DailyTotal>();
+    for (let i = days - 1; i >= 0; i--) {
+        const date = toDateKey(now - i * DAY_MS);
+        totals.set(date, { date, words: 0, ms: 0 });
+    }
+    for (const s of sessions) {
+        const day = totals.get(toDateKey(s.start));
+        if (!day) continue;
+        day.words += s.words;
+        day.ms += sessionDuration(s);
+    }
+    return [...totals.values()];
+};
+
+// Consecutive days with reading, ending today (or yesterday, so the streak isn't lost before today's session)
+export const getStreak = (sessions: ReadingSession[], now = Date.now()) => {
+    const days = new Set(sessions.filter(s => s.words > 0).map(s => toDateKey(s.start)));
+    let offset = days.has(toDateKey(now)) ? 0 : 1;
+    let streak = 0;
+    while (days.has(toDateKey(now - offset * DAY_MS))) {
+        streak++;
+        offset++;
+    }
+    return streak;
+};
+
+// Measured pace over recent sessions (optionally of one file), or null if there isn't enough data
+export const getMeasuredWpm = (sessions: ReadingSession[], fileId?: string, now = Date.now()) => {
+    let words = 0;
+    let ms = 0;
+    for (const s of sessions) {
+        if (now - s.start > PACE_WINDOW_MS) continue;
+        if (fileId && s.fileId !== fileId) continue;
+        words += s.words;
+        ms += sessionDuration(s);
+    }
+    return words >= MIN_PACE_WORDS ? effectiveWpm(words, ms) : null;
+};
+
+export interface FinishEstimate {
+    remainingWords: number;
+    ms: number;
+    basis: 'book' | 'overall' | 'setting'; // Which pace the estimate used
+}
+
+// Prefer the pace measured on this book, then overall, then the nominal setting
+export const estimateTimeToFinish = (file: RecentFile, sessions: ReadingSession[], settingWpm: number): FinishEstimate => {
+    const remainingWords = Math.max(0, file.wordCount - file.progress);
+    const bookWpm = getMeasuredWpm(sessions, file.id);
+    const overallWpm = bookWpm ? null : getMeasuredWpm(sessions);
+    const wpm = bookWpm || overallWpm || settingWpm;
+    return {
+        remainingWords,
+        ms: (remainingWords / wpm) * 60000,
+        basis: bookWpm ? 'book' : overallWpm ? 'overall' : 'setting',
+    };
+};
+
+export const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) return '< 1 min';
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export interface ComprehensionBucket {
+    wpm: number; // Lower bound of the speed bucket
+    quizzes: number;
+    score: number; // 0..1, correct answers over questions
+}
+
+// Quiz scores grouped by reading speed, slowest first
+export const getComprehensionByWpm = (results: QuizResult[], bucketSize = 100): ComprehensionBucket[] => {
+    const buckets = new Map<number, { quizzes: number; correct: number; total: number }>();
+    for (const r of results) {
+        if (r.total === 0) continue;
+        const key = Math.floor(r.wpm / bucketSize) * bucketSize;
+        const bucket = buckets.get(key) || { quizzes: 0, correct: 0, total: 0 };
+        bucket.quizzes++;
+        bucket.correct += r.correct;
+        bucket.total += r.total;
+        buckets.set(key, bucket);
+    }
+    return [...buckets.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([wpm, b]) => ({ wpm, quizzes: b.quizzes, score: b.correct / b.total }));
+};
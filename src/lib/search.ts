@@ -0,0 +1,101 @@
+// In-document search over the `content` word array.
+// Whole-word, case- and diacritic-insensitive; multi-word queries match consecutive words.
+import { Chapter } from '@/store/useStore';
+
+export interface SearchResult {
+    starts: number[]; // Word index of each match, ascending
+    ends: number[]; // Exclusive end index of each match
+}
+
+const EMPTY_RESULT: SearchResult = { starts: [], ends: [] };
+
+// "Éléphant," -> "elephant"; punctuation-only words become ""
+export const normalizeForSearch = (text: string) =>
+    text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+export const tokenizeQuery = (query: string) =>
+    query.split(/\s+/).map(normalizeForSearch).filter(t => t.length > 0);
+
+// Normalizing a whole book is the expensive part; do it once per content array
+const normalizedCache = new WeakMap<string[], string[]>();
+// Last query per content array, so every component can call searchWords during render
+const resultCache = new WeakMap<string[], { query: string; result: SearchResult }>();
+
+const getNormalized = (words: string[]) => {
+    let normalized = normalizedCache.get(words);
+    if (!normalized) {
+        normalized = words.map(normalizeForSearch);
+        normalizedCache.set(words, normalized);
+    }
+    return normalized;
+};
+
+export const searchWords = (words: string[], query: string): SearchResult => {
+    const tokens = tokenizeQuery(query);
+    if (tokens.length === 0) return EMPTY_RESULT;
+
+    const key = tokens.join(' ');
+    const cached = resultCache.get(words);
+    if (cached && cached.query === key) return cached.result;
+
+    const normalized = getNormalized(words);
+    const result: SearchResult = { starts: [], ends: [] };
+
+    for (let i = 0; i < normalized.length; i++) {
+        if (normalized[i] !== tokens[0]) continue;
+
+        // Match the remaining tokens, skipping punctuation-only words like "—"
+        let j = i + 1;
+        let t = 1;
+        while (t < tokens.length && j < normalized.length) {
+            if (normalized[j] === '') { j++; continue; }
+            if (normalized[j] !== tokens[t]) break;
+            t++;
+            j++;
+        }
+        if (t === tokens.length) {
+            result.starts.push(i);
+            result.ends.push(j);
+        }
+    }
+
+    resultCache.set(words, { query: key, result });
+    return result;
+};
+
+// Index (into result.starts) of the match containing `index`, or -1
+export const getHitAt = (result: SearchResult, index: number) => {
+    let lo = 0;
+    let hi = result.starts.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (result.starts[mid] > index) hi = mid - 1;
+        else if (result.ends[mid] <= index) lo = mid + 1;
+        else return mid;
+    }
+    return -1;
+};
+
+// Next match strictly after / previous match strictly before `index`, wrapping around
+export const getAdjacentHit = (result: SearchResult, index: number, direction: 1 | -1): number => {
+    const { starts } = result;
+    if (starts.length === 0) return -1;
+    if (direction === 1) {
+        const next = starts.findIndex(s => s > index);
+        return next === -1 ? 0 : next;
+    }
+    for (let i = starts.length - 1; i >= 0; i--) {
+        if (starts[i] < index) return i;
+    }
+    return starts.length - 1;
+};
+
+export const countHitsByChapter = (result: SearchResult, chapters: Chapter[]): number[] => {
+    const counts = new Array(chapters.length).fill(0);
+    let c = 0;
+    for (const start of result.starts) {
+        while (c + 1 < chapters.length && chapters[c + 1].startIndex <= start) c++;
+        if (chapters.length > 0) counts[c]++;
+    }
+    return counts;
+};
@@ -0,0 +1,44 @@
+// Sentence boundaries over the flat word stream, computed once per document and stored
+// with it (DocumentStructure in lib/file-utils).
+
+const MAX_SENTENCE_WORDS = 80; // Runaway guard for text without punctuation
+
+// Short words ending in "." that rarely end a sentence
+const ABBREVIATIONS = new Set(['mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'st.', 'vs.', 'etc.', 'e.g.', 'i.e.', 'fig.', 'no.', 'vol.', 'p.', 'pp.']);
+
+export const isSentenceEnd = (word: string) =>
+    /[.!?…]["'”’)\]]*$/.test(word) && !ABBREVIATIONS.has(word.toLowerCase());
+
+// "approx. five": a period followed by a lower-case word is an abbreviation we don't know
+const continuesSentence = (word: string, next: string | undefined) =>
+    !!next && /\.["'”’)\]]*$/.test(word) && /^["'“‘(\[]*\p{Ll}/u.test(next);
+
+// Last word index of every sentence. Paragraph ends (ascending) always close a sentence,
+// and text without punctuation is cut every MAX_SENTENCE_WORDS words.
+export const findSentenceEnds = (words: string[], paragraphEnds: number[] = []): number[] => {
+    const ends: number[] = [];
+    let p = 0;
+    let start = 0;
+    words.forEach((word, i) => {
+        while (p < paragraphEnds.length && paragraphEnds[p] < i) p++;
+        const isEnd = isSentenceEnd(word) && !continuesSentence(word, words[i + 1]);
+        if (isEnd || paragraphEnds[p] === i || i - start + 1 >= MAX_SENTENCE_WORDS || i === words.length - 1) {
+            ends.push(i);
+            start = i + 1;
+        }
+    });
+    return ends;
+};
+
+// [start, end) of the sentence containing `index`, from precomputed sentence ends
+export const getSentenceBounds = (sentenceEnds: number[], index: number): { start: number; end: number } => {
+    let lo = 0;
+    let hi = sentenceEnds.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sentenceEnds[mid] < index) lo = mid + 1;
+        else hi = mid;
+    }
+    if (lo >= sentenceEnds.length) return { start: index, end: index + 1 };
+    return { start: lo > 0 ? sentenceEnds[lo - 1] + 1 : 0, end: sentenceEnds[lo] + 1 };
+};
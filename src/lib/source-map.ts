@@ -0,0 +1,48 @@
+// Where each word came from in a paginated source (PDF), stored with the document.
+// The map only keeps first-word indices: pages by binary search, items by a scan of the page
+// (items are read in layout order, not pdf.js order, so their starts aren't sorted).
+
+export interface SourceMap {
+    pageStarts: number[]; // First word index of each page; page n (1-based) is pageStarts[n - 1]
+    itemStarts: number[][]; // [page][pdf.js text item] -> first word index of that item; -1 if it gave none
+}
+
+export interface SourcePosition {
+    page: number; // 1-based, as printed in PDF viewers
+    item: number; // Index into the page's pdf.js text items; -1 if unknown
+    word: number; // Word within the item
+}
+
+// Last page whose start is <= index
+const findLast = (starts: number[], index: number) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (starts[mid] <= index) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+};
+
+export const getPageCount = (map: SourceMap) => map.pageStarts.length;
+
+export const getPageAt = (map: SourceMap, index: number) =>
+    map.pageStarts.length > 0 ? findLast(map.pageStarts, index) + 1 : 1;
+
+// First word of a page (clamped to the document); pages without text lead to the next word
+export const getPageStart = (map: SourceMap, page: number) => {
+    const p = Math.max(1, Math.min(page, map.pageStarts.length));
+    return map.pageStarts[p - 1] ?? 0;
+};
+
+export const getSourcePosition = (map: SourceMap, index: number): SourcePosition => {
+    const page = getPageAt(map, index);
+    const items = map.itemStarts[page - 1] || [];
+    // The item starting closest before the word
+    let item = -1;
+    items.forEach((start, i) => {
+        if (start !== -1 && start <= index && (item === -1 || start > items[item])) item = i;
+    });
+    return { page, item, word: index - (item === -1 ? map.pageStarts[page - 1] ?? 0 : items[item]) };
+};
@@ -0,0 +1,28 @@
+// Speech speed: shared by the TTS route and the client.
+// Audio is synthesized close to the target WPM (prosody rate), and the browser's
+// playbackRate only covers the small remainder, so speech never sounds sped up.
+
+// Typical speaking speed of the Edge neural voices at rate +0%
+export const BASE_SPEECH_WPM = 150;
+
+// Edge accepts -50%..+200%; past 3x words stop being intelligible anyway
+export const MIN_SYNTH_RATE = 0.5;
+export const MAX_SYNTH_RATE = 3;
+
+// Highest WPM with audio enabled (BASE_SPEECH_WPM * MAX_SYNTH_RATE)
+export const MAX_AUDIO_WPM = 450;
+
+// Rates are quantized so nearby WPM values share cached audio
+const RATE_STEP = 0.1;
+
+export const clampSynthRate = (rate: number) => Math.max(MIN_SYNTH_RATE, Math.min(rate, MAX_SYNTH_RATE));
+
+// Synthesizer rate for a target WPM, e.g. 300 WPM -> 2.0
+export const getSynthRate = (wpm: number) =>
+    clampSynthRate(Math.round(wpm / BASE_SPEECH_WPM / RATE_STEP) * RATE_STEP);
+
+// Edge TTS prosody value, e.g. 2.0 -> "+100%"
+export const formatProsodyRate = (rate: number) => {
+    const percent = Math.round((clampSynthRate(rate) - 1) * 100);
+    return `${percent >= 0 ? '+' : ''}${percent}%`;
+};
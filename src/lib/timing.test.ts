@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getIndexAfterDuration, getRangeDuration, getTimingModel, getWordDelay, getWordWeight } from '@/lib/timing';
+
+const TEXT = `The committee, after considerable deliberation, postponed its decision until 2025.
+It was not a surprise. Nobody expected the incomprehensibly long report to be read in a week;
+most members skimmed it, and a few admitted as much. "Why bother?" one asked.`;
+
+const words = TEXT.split(/\s+/);
+
+describe('getWordWeight', () => {
+    it('gives long words more time than short ones', () => {
+        expect(getWordWeight('incomprehensibility')).toBeGreaterThan(getWordWeight('report'));
+        expect(getWordWeight('report')).toBeGreaterThan(getWordWeight('cat'));
+    });
+
+    it('gives common words less time than other words of the same length', () => {
+        expect(getWordWeight('the')).toBeLessThan(getWordWeight('cat'));
+    });
+
+    it('gives numbers more time than words of the same length', () => {
+        expect(getWordWeight('2025')).toBeGreaterThan(getWordWeight('year'));
+    });
+
+    it('pauses longer at a paragraph end than a sentence end, and there than at a comma', () => {
+        const plain = getWordWeight('week');
+        const clause = getWordWeight('week,');
+        const sentence = getWordWeight('week.');
+        const paragraph = getWordWeight('week.', { isParagraphEnd: true });
+        expect(clause).toBeGreaterThan(plain);
+        expect(sentence).toBeGreaterThan(clause);
+        expect(paragraph).toBeGreaterThan(sentence);
+    });
+
+    it('looks past closing quotes for the sentence end', () => {
+        expect(getWordWeight('bother?"')).toBe(getWordWeight('bother?'));
+    });
+});
+
+describe('timing model', () => {
+    it.each([150, 300, 600])('averages 60000 / wpm per word at %i wpm', (wpm) => {
+        const model = getTimingModel(words);
+        const total = words.reduce((sum, _, i) => sum + getWordDelay(model, i, wpm), 0);
+        expect(total / words.length).toBeCloseTo(60000 / wpm, 6);
+        expect(getRangeDuration(model, 0, words.length, wpm)).toBeCloseTo(total, 6);
+    });
+
+    it('keeps the average with paragraph pauses', () => {
+        const model = getTimingModel(words, [12, words.length - 1]);
+        expect(getRangeDuration(model, 0, words.length, 300) / words.length).toBeCloseTo(200, 6);
+    });
+
+    it('inverts getRangeDuration with getIndexAfterDuration', () => {
+        const model = getTimingModel(words);
+        for (const [start, end] of [[0, 1], [0, 10], [5, 30], [12, words.length - 1]]) {
+            const ms = getRangeDuration(model, start, end, 300);
+            expect(getIndexAfterDuration(model, start, ms, 300)).toBe(end);
+            expect(getIndexAfterDuration(model, end, -ms, 300)).toBe(start);
+        }
+    });
+
+    it('clamps moves past either end of the document', () => {
+        const model = getTimingModel(words);
+        expect(getIndexAfterDuration(model, 3, 1e9, 300)).toBe(words.length - 1);
+        expect(getIndexAfterDuration(model, 3, -1e9, 300)).toBe(0);
+    });
+});
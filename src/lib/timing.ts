@@ -0,0 +1,163 @@
+// ---------------------------
+// Adaptive Word Timing
+// ---------------------------
+// Every word gets a relative "weight" (1 = an average word). The silent driver shows
+// each word for `weight / meanWeight * (60000 / wpm)` ms, so long words, numbers and
+// sentence ends get more time while the document as a whole still reads at `wpm`.
+
+export interface WordWeightOptions {
+    isParagraphEnd?: boolean;
+}
+
+export interface TimingModel {
+    weights: Float64Array;
+    // prefix[i] = sum of weights[0..i-1]; prefix[n] = total weight
+    prefix: Float64Array;
+    meanWeight: number;
+}
+
+// Very frequent function words are recognised almost instantly
+const COMMON_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for',
+    'with', 'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this',
+    'that', 'these', 'those', 'he', 'she', 'they', 'we', 'you', 'i', 'me', 'my', 'his',
+    'her', 'their', 'our', 'your', 'not', 'no', 'so', 'do', 'did', 'has', 'have', 'had',
+    'will', 'would', 'can', 'could', 'there', 'then', 'than', 'what', 'which', 'who',
+    'when', 'where', 'all', 'one', 'up', 'out', 'into', 'about', 'more', 'some', 'just',
+]);
+
+const LENGTH_THRESHOLD = 6; // Letters before a word starts costing extra time
+const LENGTH_BONUS = 0.08; // Extra weight per letter beyond the threshold
+const MAX_LENGTH_BONUS = 1.0;
+const SHORT_WORD_WEIGHT = 0.9;
+const COMMON_WORD_FACTOR = 0.9;
+const RARE_WORD_BONUS = 0.3;
+const NUMBER_BONUS = 0.6;
+const CLAUSE_PAUSE = 0.5; // , ; :
+const SENTENCE_PAUSE = 1.0; // . ? !
+const PARAGRAPH_PAUSE = 1.75;
+
+const stripPunctuation = (word: string) =>
+    word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+// Relative display weight for a single word. Pure: depends only on the word itself.
+export const getWordWeight = (word: string, options: WordWeightOptions = {}): number => {
+    const core = stripPunctuation(word);
+    const length = core.length;
+
+    let weight = 1;
+
+    if (length <= 3) {
+        weight = SHORT_WORD_WEIGHT;
+    } else if (length > LENGTH_THRESHOLD) {
+        weight += Math.min(MAX_LENGTH_BONUS, (length - LENGTH_THRESHOLD) * LENGTH_BONUS);
+    }
+
+    const lower = core.toLowerCase();
+    if (COMMON_WORDS.has(lower)) {
+        weight *= COMMON_WORD_FACTOR;
+    } else if (length >= 9 && /^\p{L}+$/u.test(core)) {
+        // No frequency list available client-side: long, purely alphabetic words are
+        // a good proxy for vocabulary the reader sees rarely.
+        weight += RARE_WORD_BONUS;
+    }
+
+    if (/\d/.test(core)) {
+        weight += NUMBER_BONUS;
+    }
+
+    // Trailing punctuation (ignoring closing quotes/brackets)
+    const tail = word.replace(/["'”’)\]]+$/, '');
+    if (options.isParagraphEnd) {
+        weight += PARAGRAPH_PAUSE;
+    } else if (/[.?!…]$/.test(tail)) {
+        weight += SENTENCE_PAUSE;
+    } else if (/[,;:–—]$/.test(tail)) {
+        weight += CLAUSE_PAUSE;
+    }
+
+    return weight;
+};
+
+// Cache per content array: the store replaces `content` on every load, so identity is enough
+// (the paragraph ends of a loaded document are replaced together with it).
+const modelCache = new WeakMap<string[], { paragraphEnds?: readonly number[]; model: TimingModel }>();
+
+// `paragraphEnds`: ascending indices of the last word of each paragraph (DocumentStructure)
+export const getTimingModel = (words: string[], paragraphEnds?: readonly number[]): TimingModel => {
+    const cached = modelCache.get(words);
+    if (cached && cached.paragraphEnds === paragraphEnds) return cached.model;
+
+    const n = words.length;
+    const weights = new Float64Array(n);
+    const prefix = new Float64Array(n + 1);
+    let p = 0;
+
+    for (let i = 0; i < n; i++) {
+        while (paragraphEnds && p < paragraphEnds.length && paragraphEnds[p] < i) p++;
+        // The last word needs no pause before anything
+        const isParagraphEnd = !!paragraphEnds && paragraphEnds[p] === i && i < n - 1;
+        weights[i] = getWordWeight(words[i], { isParagraphEnd });
+        prefix[i + 1] = prefix[i] + weights[i];
+    }
+
+    const model: TimingModel = {
+        weights,
+        prefix,
+        meanWeight: n > 0 ? prefix[n] / n : 1,
+    };
+
+    modelCache.set(words, { paragraphEnds, model });
+    return model;
+};
+
+const baseDelay = (wpm: number) => 60000 / Math.max(1, wpm);
+
+// Rounding slack when comparing prefix sums, so a duration from getRangeDuration maps back to its word
+const EPSILON = 1e-9;
+
+// Display time (ms) for words[index] at the given WPM
+export const getWordDelay = (model: TimingModel, index: number, wpm: number): number => {
+    if (index < 0 || index >= model.weights.length) return baseDelay(wpm);
+    return (model.weights[index] / model.meanWeight) * baseDelay(wpm);
+};
+
+// Total display time (ms) of words[start..end)
+export const getRangeDuration = (model: TimingModel, start: number, end: number, wpm: number): number => {
+    const n = model.weights.length;
+    const s = Math.max(0, Math.min(n, start));
+    const e = Math.max(s, Math.min(n, end));
+    return ((model.prefix[e] - model.prefix[s]) / model.meanWeight) * baseDelay(wpm);
+};
+
+// Word index reached after moving `ms` milliseconds of reading time from `start`.
+// Negative values move backwards.
+export const getIndexAfterDuration = (model: TimingModel, start: number, ms: number, wpm: number): number => {
+    const n = model.weights.length;
+    if (n === 0) return 0;
+
+    const from = Math.max(0, Math.min(n - 1, start));
+    const weightDelta = (Math.abs(ms) / baseDelay(wpm)) * model.meanWeight;
+
+    if (ms >= 0) {
+        const target = model.prefix[from] + weightDelta;
+        // First index whose prefix reaches the target
+        let lo = from, hi = n;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (model.prefix[mid] < target - EPSILON) lo = mid + 1;
+            else hi = mid;
+        }
+        return Math.min(n - 1, lo);
+    }
+
+    const target = model.prefix[from] - weightDelta;
+    // Last index whose prefix is still at or below the target
+    let lo = 0, hi = from;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (model.prefix[mid] <= target + EPSILON) lo = mid;
+        else hi = mid - 1;
+    }
+    return Math.max(0, lo);
+};
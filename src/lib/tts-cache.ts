@@ -0,0 +1,111 @@
+// Server-side, content-addressed cache for synthesized chunks.
+// Key = sha256 of everything that changes the audio (words, voice, settings), so a rewind
+// or a re-read of the same book never synthesizes the same chunk twice.
+// Entries are `<hash>.mp3` + `<hash>.json` (marks); least recently used entries are evicted
+// once the directory grows past TTS_CACHE_MAX_BYTES.
+import { promises as fsp } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { WordMark } from '@/lib/tts-marks';
+
+// Bump when the stored format or mark alignment changes to invalidate old entries
+const CACHE_VERSION = 1;
+
+const CACHE_DIR = process.env.TTS_CACHE_DIR || path.join(os.tmpdir(), 'photon-tts-cache');
+const MAX_BYTES = Number(process.env.TTS_CACHE_MAX_BYTES) || 200 * 1024 * 1024; // 200 MB
+
+export interface CachedChunk {
+    audio: Buffer;
+    marks: WordMark[];
+}
+
+interface IndexEntry {
+    size: number;
+    lastUsed: number;
+}
+
+// In-memory view of the directory, built once per server process
+let indexPromise: Promise<Map<string, IndexEntry>> | null = null;
+
+const loadIndex = (): Promise<Map<string, IndexEntry>> => {
+    if (indexPromise) return indexPromise;
+
+    indexPromise = (async () => {
+        const index = new Map<string, IndexEntry>();
+        await fsp.mkdir(CACHE_DIR, { recursive: true });
+
+        for (const name of await fsp.readdir(CACHE_DIR)) {
+            if (!name.endsWith('.mp3')) continue;
+            const key = name.slice(0, -4);
+            try {
+                const [audioStat, marksStat] = await Promise.all([
+                    fsp.stat(path.join(CACHE_DIR, name)),
+                    fsp.stat(path.join(CACHE_DIR, `${key}.json`)),
+                ]);
+                index.set(key, { size: audioStat.size + marksStat.size, lastUsed: audioStat.mtimeMs });
+            } catch {
+                // Half-written entry: ignore, it will be overwritten or evicted
+            }
+        }
+        return index;
+    })();
+
+    indexPromise.catch(() => { indexPromise = null; });
+    return indexPromise;
+};
+
+const filesFor = (key: string) => [path.join(CACHE_DIR, `${key}.mp3`), path.join(CACHE_DIR, `${key}.json`)];
+
+export const getCacheKey = (words: string[], voice: string, settings: Record<string, string | number> = {}) =>
+    createHash('sha256')
+        .update(JSON.stringify({ v: CACHE_VERSION, words, voice, settings }))
+        .digest('hex');
+
+export const readCachedChunk = async (key: string): Promise<CachedChunk | null> => {
+    const index = await loadIndex();
+    const entry = index.get(key);
+    if (!entry) return null;
+
+    const [audioPath, marksPath] = filesFor(key);
+    try {
+        const [audio, marksJson] = await Promise.all([fsp.readFile(audioPath), fsp.readFile(marksPath, 'utf-8')]);
+
+        // Touch for LRU (mtime survives restarts, the index does not)
+        const now = Date.now();
+        entry.lastUsed = now;
+        fsp.utimes(audioPath, now / 1000, now / 1000).catch(() => {});
+
+        return { audio, marks: JSON.parse(marksJson) };
+    } catch {
+        index.delete(key);
+        return null;
+    }
+};
+
+const evict = async (index: Map<string, IndexEntry>) => {
+    let total = 0;
+    index.forEach(e => { total += e.size; });
+    if (total <= MAX_BYTES) return;
+
+    const oldestFirst = [...index.entries()].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [key, entry] of oldestFirst) {
+        if (total <= MAX_BYTES) break;
+        index.delete(key);
+        total -= entry.size;
+        await Promise.all(filesFor(key).map(f => fsp.unlink(f).catch(() => {})));
+    }
+};
+
+export const writeCachedChunk = async (key: string, chunk: CachedChunk): Promise<void> => {
+    const index = await loadIndex();
+    const [audioPath, marksPath] = filesFor(key);
+    const marksJson = JSON.stringify(chunk.marks);
+
+    // Marks first: an entry only counts once its .mp3 exists (see loadIndex)
+    await fsp.writeFile(marksPath, marksJson);
+    await fsp.writeFile(audioPath, chunk.audio);
+
+    index.set(key, { size: chunk.audio.length + Buffer.byteLength(marksJson), lastUsed: Date.now() });
+    await evict(index);
+};
@@ -0,0 +1,90 @@
+// Align synthesizer word boundaries with the chunk's word slots.
+// The client needs exactly one mark per word it sent, in order, so `marks[i]`
+// can be added to the chunk offset to get the absolute `content` index.
+
+export interface WordMark {
+    word: string;
+    start: number; // seconds
+    end: number; // seconds
+}
+
+// node-edge-tts subtitle cue (times in ms)
+export interface BoundaryCue {
+    part: string;
+    start: number;
+    end: number;
+}
+
+// How far ahead a boundary may skip unspoken slots (e.g. "—", "...") to find its word
+const MAX_LOOKAHEAD = 4;
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const matches = (slot: string, part: string) =>
+    slot.length > 0 && part.length > 0 && (slot === part || slot.startsWith(part) || part.startsWith(slot));
+
+export const alignWordMarks = (words: string[], cues: BoundaryCue[]): WordMark[] => {
+    const slots = words.map(normalize);
+    const starts: (number | null)[] = new Array(words.length).fill(null);
+    const ends: (number | null)[] = new Array(words.length).fill(null);
+
+    let pointer = 0;
+    for (const cue of cues) {
+        const part = normalize(unescapeSSML(cue.part)); // Cues echo the escaped text ("AT&amp;T")
+        if (!part) continue;
+
+        let target = -1;
+        for (let j = pointer; j < Math.min(slots.length, pointer + MAX_LOOKAHEAD + 1); j++) {
+            if (matches(slots[j], part)) {
+                target = j;
+                break;
+            }
+        }
+
+        if (target === -1) {
+            // A cue spanning several slots (e.g. "New York" read as one) or a
+            // pronunciation we can't match: extend the current word instead of drifting.
+            if (pointer > 0) ends[pointer - 1] = cue.end / 1000;
+            continue;
+        }
+
+        if (starts[target] === null) starts[target] = cue.start / 1000;
+        ends[target] = cue.end / 1000;
+        pointer = target + 1;
+    }
+
+    // Fill unmatched slots by interpolating between their matched neighbours
+    const marks: WordMark[] = [];
+    for (let i = 0; i < words.length; i++) {
+        let start = starts[i];
+        if (start === null) {
+            const prevEnd = i > 0 ? marks[i - 1].end : 0;
+            let next = i + 1;
+            while (next < words.length && starts[next] === null) next++;
+            const nextStart = next < words.length ? starts[next]! : prevEnd;
+            const gap = next - i + 1;
+            start = prevEnd + (nextStart - prevEnd) / gap;
+        }
+        const end = ends[i] ?? start;
+        marks.push({ word: words[i], start, end: Math.max(start, end) });
+    }
+
+    return marks;
+};
+
+// Edge TTS embeds text into SSML, so markup characters must be escaped
+export const escapeSSML = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+export const unescapeSSML = (text: string) =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
@@ -0,0 +1,81 @@
+// Shared by the TTS routes and the client: voice metadata, defaults and language detection.
+
+export interface TtsVoice {
+    id: string; // Edge ShortName, e.g. "en-US-AndrewNeural"
+    name: string; // Display name, e.g. "Andrew"
+    locale: string; // e.g. "en-US"
+    gender: 'Male' | 'Female' | string;
+}
+
+export const DEFAULT_VOICE = 'en-US-AndrewNeural';
+
+// Edge voice ids are locale + name + "Neural"; anything else is rejected before it reaches SSML
+export const isValidVoiceId = (id: string) => /^[a-z]{2,3}-[A-Za-z]{2,4}(-[A-Za-z]+)?-[A-Za-z]+Neural$/.test(id);
+
+export const getVoiceLocale = (id: string) => id.split('-').slice(0, 2).join('-');
+export const getVoiceLanguage = (id: string) => id.split('-')[0];
+
+// Used when the voice list can't be fetched, and for auto-selection by language
+export const FALLBACK_VOICES: TtsVoice[] = [
+    { id: 'en-US-AndrewNeural', name: 'Andrew', locale: 'en-US', gender: 'Male' },
+    { id: 'en-US-AriaNeural', name: 'Aria', locale: 'en-US', gender: 'Female' },
+    { id: 'en-GB-SoniaNeural', name: 'Sonia', locale: 'en-GB', gender: 'Female' },
+    { id: 'en-GB-RyanNeural', name: 'Ryan', locale: 'en-GB', gender: 'Male' },
+    { id: 'fr-FR-DeniseNeural', name: 'Denise', locale: 'fr-FR', gender: 'Female' },
+    { id: 'fr-FR-HenriNeural', name: 'Henri', locale: 'fr-FR', gender: 'Male' },
+    { id: 'de-DE-KatjaNeural', name: 'Katja', locale: 'de-DE', gender: 'Female' },
+    { id: 'de-DE-ConradNeural', name: 'Conrad', locale: 'de-DE', gender: 'Male' },
+    { id: 'es-ES-ElviraNeural', name: 'Elvira', locale: 'es-ES', gender: 'Female' },
+    { id: 'es-ES-AlvaroNeural', name: 'Alvaro', locale: 'es-ES', gender: 'Male' },
+    { id: 'it-IT-ElsaNeural', name: 'Elsa', locale: 'it-IT', gender: 'Female' },
+    { id: 'it-IT-DiegoNeural', name: 'Diego', locale: 'it-IT', gender: 'Male' },
+    { id: 'pt-BR-FranciscaNeural', name: 'Francisca', locale: 'pt-BR', gender: 'Female' },
+    { id: 'pt-BR-AntonioNeural', name: 'Antonio', locale: 'pt-BR', gender: 'Male' },
+    { id: 'nl-NL-ColetteNeural', name: 'Colette', locale: 'nl-NL', gender: 'Female' },
+    { id: 'nl-NL-MaartenNeural', name: 'Maarten', locale: 'nl-NL', gender: 'Male' },
+];
+
+// ---------------------------
+// Language Detection
+// ---------------------------
+// Frequent function words per language. Cheap and good enough to choose a voice.
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'of', 'to', 'is', 'that', 'with', 'for', 'this', 'was', 'are', 'have'],
+    fr: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'que', 'pour', 'dans', 'qui', 'pas'],
+    de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein', 'eine', 'auf', 'sich', 'auch'],
+    es: ['el', 'los', 'las', 'que', 'por', 'una', 'con', 'para', 'del', 'como', 'pero', 'es'],
+    it: ['il', 'che', 'della', 'per', 'una', 'sono', 'non', 'gli', 'con', 'del', 'nel', 'anche'],
+    pt: ['que', 'não', 'uma', 'com', 'para', 'os', 'das', 'dos', 'mais', 'como', 'mas', 'foi'],
+    nl: ['de', 'het', 'een', 'en', 'van', 'niet', 'dat', 'zijn', 'op', 'voor', 'met', 'ook'],
+};
+
+const SAMPLE_SIZE = 2000; // Words inspected
+const MIN_HITS = 10; // Below this the sample is too short or not natural language
+
+// ISO 639-1 code of the dominant language, or null when unsure
+export const detectLanguage = (words: string[]): string | null => {
+    const scores: Record<string, number> = {};
+    const lookup = new Map<string, string[]>();
+    for (const lang in STOPWORDS) {
+        scores[lang] = 0;
+        STOPWORDS[lang].forEach(w => lookup.set(w, [...(lookup.get(w) || []), lang]));
+    }
+
+    for (const word of words.slice(0, SAMPLE_SIZE)) {
+        const langs = lookup.get(word.toLowerCase().replace(/[^\p{L}]/gu, ''));
+        langs?.forEach(lang => { scores[lang]++; });
+    }
+
+    const [best, bestScore] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+    return bestScore >= MIN_HITS ? best : null;
+};
+
+// The voice actually used: the chosen one, unless auto mode picks one matching the document
+export const resolveVoice = (voice: string, autoVoice: boolean, documentLanguage: string | null): string => {
+    if (!autoVoice || !documentLanguage || getVoiceLanguage(voice) === documentLanguage) return voice;
+
+    // Keep the gender of the chosen voice when the language has both
+    const gender = FALLBACK_VOICES.find(v => v.id === voice)?.gender;
+    const candidates = FALLBACK_VOICES.filter(v => getVoiceLanguage(v.id) === documentLanguage);
+    return (candidates.find(v => v.gender === gender) || candidates[0])?.id || voice;
+};
@@ -1,6 +1,37 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import { detectChapters } from "@/lib/file-utils";
+import {
+  deleteAnnotation,
+  deleteDocument,
+  getDocumentStructure,
+  LegacyRecentFile,
+  loadAnnotations,
+  loadDocument,
+  loadFlashcards,
+  loadLibrary,
+  migrateLegacyFiles,
+  saveAnnotation,
+  saveDocument,
+  saveFileMeta,
+  saveFlashcard,
+  scheduleFileMetaSave,
+  StoredDocument,
+} from "@/lib/document-store";
+import { getIndexAfterDuration, getTimingModel } from "@/lib/timing";
+import { DEFAULT_VOICE, detectLanguage, resolveVoice } from "@/lib/voices";
+import { MAX_AUDIO_WPM } from "@/lib/speech-rate";
+import { exportAudiobook } from "@/lib/audiobook-export";
+import { downloadBlob, safeFileName } from "@/lib/download";
+import { getSentenceBounds } from "@/lib/sentences";
+import { buildStructure, DocumentStructure } from "@/lib/file-utils";
+import { SourceMap } from "@/lib/source-map";
+import { createFlashcard } from "@/lib/flashcards";
+import { indexDocument, removeFromIndex } from "@/lib/library-index";
+import {
+  annotationsToJSON,
+  annotationsToMarkdown,
+  buildAnnotationExport,
+} from "@/lib/annotation-export";
 
 const DEFAULT_CONTENT_TEXT =
   "Welcome to PhotonReader. This is a live demo of Rapid Serial Visual Presentation. By displaying words one at a time, we eliminate eye movement, allowing you to read at double or triple your normal speed. Upload your own PDF below to get started.";
@@ -8,6 +39,7 @@ const DEFAULT_CONTENT = DEFAULT_CONTENT_TEXT.split(" ");
 const DEFAULT_CHAPTERS = [
   { title: "Start", startIndex: 0, wordCount: DEFAULT_CONTENT.length },
 ];
+const DEFAULT_STRUCTURE = buildStructure(DEFAULT_CONTENT, []);
 
 export interface RecentFile {
   id: string;
@@ -15,7 +47,6 @@ export interface RecentFile {
   timestamp: number;
   wordCount: number;
   snippet: string; // First 20 words for preview
-  fullText?: string;
   progress: number; // Index of the last read word
   folderId?: string; // Optional folder assignment
   chapters?: Chapter[];
@@ -32,15 +63,48 @@ export // Define types for content and chapters
 
 // Audio Singleton (outside store to avoid serialization issues)
 let globalAudioElement: HTMLAudioElement | null = null;
+// Running audiobook export (one at a time)
+let audioExportController: AbortController | null = null;
 
 export interface Chapter {
   title: string;
   startIndex: number;
   wordCount: number;
+  level?: number; // Nesting depth in the source outline (PDF bookmarks); top level when missing
+}
+
+// Bookmark or highlight, anchored to word indices of the document's `content`
+export interface Annotation {
+  id: string;
+  fileId: string;
+  type: "bookmark" | "highlight";
+  startIndex: number;
+  endIndex: number; // Exclusive; startIndex + 1 for bookmarks
+  note?: string;
+  createdAt: number;
+}
+
+// Chapter that just finished playing and is waiting for its quiz prompt (see hooks/useChapterQuiz)
+export interface PendingQuiz {
+  fileId: string;
+  chapter: Chapter;
+}
+
+export interface AudioExportJob {
+  fileId: string;
+  fileName: string;
+  done: number; // Chunks synthesized
+  total: number;
+  chapter: string;
+  status: "running" | "done" | "error";
+  error?: string;
 }
 
 interface AppState {
   content: string[]; // Current active content
+  paragraphEnds: number[]; // Structure of `content` (see DocumentStructure in lib/file-utils)
+  sentenceEnds: number[];
+  sourceMap: SourceMap | null; // Page of each word, when the source has pages (lib/source-map)
   currentFileId: string | null; // ID of the currently open file to track progress
   wpm: number;
   isPlaying: boolean;
@@ -48,11 +112,21 @@ interface AppState {
   currentIndex: number;
   theme: "light" | "dark";
   colorTheme: "red" | "blue" | "green";
-  recentFiles: RecentFile[];
+  recentFiles: RecentFile[]; // Metadata only; text lives in IndexedDB (see lib/document-store)
+  isLibraryLoaded: boolean;
   folders: Folder[];
   chapters: Chapter[];
   feedback: string | null;
   isAudioEnabled: boolean;
+  voice: string; // Chosen TTS voice id
+  autoVoice: boolean; // Switch voice to match the document's language
+  documentLanguage: string | null; // Detected from `content`, e.g. "fr"
+  audioExport: AudioExportJob | null;
+  annotations: Annotation[]; // Of the current document, sorted by position
+  searchQuery: string; // In-document search (see lib/search); matches are derived from `content`
+  quizPrompts: boolean; // Offer a comprehension quiz when a chapter ends
+  displayMode: "word" | "phrase"; // Redicle shows one word or a short phrase (see lib/phrases)
+  pendingQuiz: PendingQuiz | null;
 
   // Actions
   setFeedback: (feedback: string | null) => void;
@@ -61,7 +135,9 @@ interface AppState {
   deleteFolder: (id: string) => void;
   deleteFile: (id: string) => void;
   setContent: (
-    text: string | { words: string[]; chapters: Chapter[] },
+    text:
+      | string
+      | ({ words: string[]; chapters: Chapter[]; sourceMap?: SourceMap } & Partial<DocumentStructure>),
     fileName?: string,
     folderId?: string
   ) => void;
@@ -71,15 +147,32 @@ interface AppState {
   toggleTheme: () => void;
   setColorTheme: (theme: "red" | "blue" | "green") => void;
   reset: () => void;
-  loadRecentFile: (file: RecentFile) => void;
+  loadRecentFile: (file: RecentFile) => Promise<void>;
   updateRecentFileProgress: (id: string, index: number) => void;
   moveFile: (fileId: string, folderId?: string) => void;
   goHome: () => void;
-  restoreSession: () => void;
+  restoreSession: () => Promise<void>;
   togglePlaySmart: () => void;
   seekByTime: (seconds: number) => void;
   toggleAudio: () => void;
   getAudioElement: () => HTMLAudioElement | null;
+  setVoice: (voice: string) => void;
+  setAutoVoice: (autoVoice: boolean) => void;
+  getActiveVoice: () => string;
+  setSearchQuery: (query: string) => void;
+  setQuizPrompts: (enabled: boolean) => void;
+  setDisplayMode: (mode: "word" | "phrase") => void;
+  setPendingQuiz: (quiz: PendingQuiz | null) => void;
+  addBookmark: () => void;
+  addHighlight: (startIndex: number, endIndex: number, note?: string) => void;
+  highlightSentence: () => void;
+  rememberSentence: () => Promise<void>;
+  exportAnnotations: (file: RecentFile, format: "markdown" | "json") => Promise<void>;
+  updateAnnotationNote: (id: string, note: string) => void;
+  removeAnnotation: (id: string) => void;
+  startAudioExport: (file: RecentFile) => Promise<void>;
+  cancelAudioExport: () => void;
+  dismissAudioExport: () => void;
 }
 
 export const useStore = create<AppState>()(
@@ -89,6 +182,8 @@ export const useStore = create<AppState>()(
         "Welcome to PhotonReader. This is a live demo of Rapid Serial Visual Presentation. By displaying words one at a time, we eliminate eye movement, allowing you to read at double or triple your normal speed. Upload your own PDF below to get started.".split(
           " "
         ),
+      ...DEFAULT_STRUCTURE,
+      sourceMap: null,
       currentFileId: "demo",
       wpm: 250,
       isPlaying: false,
@@ -96,11 +191,21 @@ export const useStore = create<AppState>()(
       theme: "light",
       colorTheme: "red",
       recentFiles: [],
+      isLibraryLoaded: false,
       folders: [],
       chapters: [],
       isFullScreen: false,
       feedback: null,
       isAudioEnabled: false,
+      voice: DEFAULT_VOICE,
+      autoVoice: false,
+      documentLanguage: "en",
+      audioExport: null,
+      annotations: [],
+      searchQuery: "",
+      quizPrompts: true,
+      displayMode: "word",
+      pendingQuiz: null,
 
       setFeedback: (feedback) => {
         set({ feedback });
@@ -117,25 +222,42 @@ export const useStore = create<AppState>()(
           ],
         })),
 
-      deleteFolder: (id) =>
+      deleteFolder: (id) => {
+        const movedIds = get()
+          .recentFiles.filter((f) => f.folderId === id)
+          .map((f) => f.id);
         set((state) => ({
           folders: state.folders.filter((f) => f.id !== id),
           // Move files in deleted folder to root (remove folderId)
           recentFiles: state.recentFiles.map((f) =>
             f.folderId === id ? { ...f, folderId: undefined } : f
           ),
-        })),
+        }));
+        get()
+          .recentFiles.filter((f) => movedIds.includes(f.id))
+          .forEach((f) => saveFileMeta(f).catch(console.error));
+      },
 
-      deleteFile: (id) =>
+      deleteFile: (id) => {
+        deleteDocument(id).catch((error) =>
+          console.error("[Library] Failed to delete document", error)
+        );
+        removeFromIndex(id);
         set((state) => ({
           recentFiles: state.recentFiles.filter((f) => f.id !== id),
           // If deleting current file, switch to home
           currentFileId:
             state.currentFileId === id ? "demo" : state.currentFileId,
           content: state.currentFileId === id ? DEFAULT_CONTENT : state.content,
+          ...(state.currentFileId === id ? DEFAULT_STRUCTURE : {}),
+          sourceMap: state.currentFileId === id ? null : state.sourceMap,
+          documentLanguage:
+            state.currentFileId === id ? "en" : state.documentLanguage,
           chapters:
             state.currentFileId === id ? DEFAULT_CHAPTERS : state.chapters,
-        })),
+          annotations: state.currentFileId === id ? [] : state.annotations,
+        }));
+      },
 
       setContent: (
         input,
@@ -145,6 +267,8 @@ export const useStore = create<AppState>()(
         let words: string[] = [];
         let chapters: Chapter[] = [];
         let fullText = "";
+        let structure: DocumentStructure;
+        let sourceMap: SourceMap | null = null;
 
         if (typeof input === "string") {
           words = input.split(/\s+/).filter((word) => word.length > 0);
@@ -152,10 +276,16 @@ export const useStore = create<AppState>()(
           chapters = [
             { title: "Chapter 1", startIndex: 0, wordCount: words.length },
           ];
+          structure = buildStructure(words, []);
         } else {
           words = input.words;
           chapters = input.chapters;
           fullText = words.join(" "); // Reconstruct approximation if needed
+          structure =
+            input.paragraphEnds && input.sentenceEnds
+              ? { paragraphEnds: input.paragraphEnds, sentenceEnds: input.sentenceEnds }
+              : buildStructure(words, []);
+          sourceMap = input.sourceMap || null;
         }
 
         const id = Date.now().toString();
@@ -167,26 +297,42 @@ export const useStore = create<AppState>()(
           timestamp: Date.now(),
           wordCount: words.length,
           snippet: words.slice(0, 20).join(" "),
-          fullText,
           chapters, // CRITICAL: Store the detected chapters!
           progress: 0,
           folderId, // Store the folder association
         };
 
-        set((state) => {
-          // Add to start, remove duplicates by name, limit to 5
-          const otherFiles = state.recentFiles.filter(
-            (f) => f.name !== fileName
-          );
-          return {
-            content: words,
-            chapters,
-            currentFileId: id,
-            currentIndex: 0,
-            isPlaying: false,
-            recentFiles: [newFile, ...otherFiles].slice(0, 5),
-          };
+        // Re-importing a file with the same name replaces the old copy
+        const replaced = get().recentFiles.filter((f) => f.name === fileName);
+        replaced.forEach((f) => {
+          deleteDocument(f.id).catch(console.error);
+          removeFromIndex(f.id);
+        });
+
+        saveDocument(newFile, { id, fullText, words, chapters, ...structure, sourceMap: sourceMap || undefined }).catch((error) => {
+          console.error("[Library] Failed to save document", error);
+          get().setFeedback("Could not save to library");
         });
+        indexDocument(id, words).catch((error) =>
+          console.error("[Library] Failed to index document", error)
+        );
+
+        set((state) => ({
+          content: words,
+          ...structure,
+          sourceMap,
+          documentLanguage: detectLanguage(words),
+          chapters,
+          annotations: [],
+          currentFileId: id,
+          currentIndex: 0,
+          isPlaying: false,
+          // Add to start; the library has no size cap
+          recentFiles: [
+            newFile,
+            ...state.recentFiles.filter((f) => f.name !== fileName),
+          ],
+        }));
       },
 
       getAudioElement: () => {
@@ -197,10 +343,205 @@ export const useStore = create<AppState>()(
          return globalAudioElement;
       },
 
+      setVoice: (voice) => set({ voice }),
+      setAutoVoice: (autoVoice) => set({ autoVoice }),
+      getActiveVoice: () => {
+        const { voice, autoVoice, documentLanguage } = get();
+        return resolveVoice(voice, autoVoice, documentLanguage);
+      },
+
+      setSearchQuery: (searchQuery) => set({ searchQuery }),
+      setQuizPrompts: (quizPrompts) => set({ quizPrompts }),
+      setDisplayMode: (displayMode) => set({ displayMode }),
+      setPendingQuiz: (pendingQuiz) => set({ pendingQuiz }),
+
+      addBookmark: () => {
+        const { currentIndex } = get();
+        get().addHighlight(currentIndex, currentIndex + 1);
+      },
+
+      addHighlight: (startIndex, endIndex, note) => {
+        const { currentFileId, content } = get();
+        if (!currentFileId || currentFileId === "demo") {
+          get().setFeedback("Open a document first");
+          return;
+        }
+        const start = Math.max(0, Math.min(startIndex, content.length - 1));
+        const end = Math.max(start + 1, Math.min(endIndex, content.length));
+        const isBookmark = end - start === 1 && !note;
+
+        // One bookmark per word: pressing the key again on the same word is a no-op
+        if (isBookmark && get().annotations.some((a) => a.type === "bookmark" && a.startIndex === start)) {
+          get().setFeedback("Already bookmarked");
+          return;
+        }
+
+        const annotation: Annotation = {
+          id: Date.now().toString(),
+          fileId: currentFileId,
+          type: isBookmark ? "bookmark" : "highlight",
+          startIndex: start,
+          endIndex: end,
+          note: note?.trim() || undefined,
+          createdAt: Date.now(),
+        };
+        set((state) => ({
+          annotations: [...state.annotations, annotation].sort(
+            (a, b) => a.startIndex - b.startIndex
+          ),
+        }));
+        get().setFeedback(isBookmark ? "Bookmarked" : "Highlighted");
+        saveAnnotation(annotation).catch((error) =>
+          console.error("[Library] Failed to save annotation", error)
+        );
+      },
+
+      // Highlight the sentence being read (playback keeps going)
+      highlightSentence: () => {
+        const { sentenceEnds, currentIndex, annotations } = get();
+        const { start, end } = getSentenceBounds(sentenceEnds, currentIndex);
+        if (annotations.some((a) => a.type === "highlight" && a.startIndex === start && a.endIndex === end)) {
+          get().setFeedback("Already highlighted");
+          return;
+        }
+        get().addHighlight(start, end);
+      },
+
+      // Turn the current sentence into a flashcard (reviewed in FlashcardReview)
+      rememberSentence: async () => {
+        const { content, sentenceEnds, currentIndex, currentFileId, recentFiles } = get();
+        if (!currentFileId || currentFileId === "demo") {
+          get().setFeedback("Open a document first");
+          return;
+        }
+        const { start, end } = getSentenceBounds(sentenceEnds, currentIndex);
+        const fileName = recentFiles.find((f) => f.id === currentFileId)?.name || "Untitled";
+        const card = createFlashcard(currentFileId, fileName, content, start, end);
+        if (!card) {
+          get().setFeedback("Nothing to remember here");
+          return;
+        }
+        try {
+          const cards = await loadFlashcards();
+          if (cards.some((c) => c.fileId === currentFileId && c.startIndex === start)) {
+            get().setFeedback("Already in flashcards");
+            return;
+          }
+          await saveFlashcard(card);
+          get().setFeedback("Added to flashcards");
+        } catch (error) {
+          console.error("[Flashcards] Failed to save card", error);
+          get().setFeedback("Couldn't save flashcard");
+        }
+      },
+
+      exportAnnotations: async (file, format) => {
+        try {
+          // Read from the library: the file doesn't have to be the open one
+          const [doc, annotations] = await Promise.all([
+            loadDocument(file.id),
+            loadAnnotations(file.id),
+          ]);
+          if (!doc) throw new Error("Document not found in library");
+          if (annotations.length === 0) {
+            get().setFeedback("No highlights to export");
+            return;
+          }
+
+          const data = buildAnnotationExport(file, doc.words, doc.chapters, annotations);
+          const name = `${safeFileName(file.name)} (highlights)`;
+          if (format === "markdown") {
+            downloadBlob(new Blob([annotationsToMarkdown(data)], { type: "text/markdown" }), `${name}.md`);
+          } else {
+            downloadBlob(new Blob([annotationsToJSON(data)], { type: "application/json" }), `${name}.json`);
+          }
+        } catch (error) {
+          console.error("[Export] Highlight export failed", error);
+          get().setFeedback("Export failed");
+        }
+      },
+
+      updateAnnotationNote: (id, note) => {
+        set((state) => ({
+          annotations: state.annotations.map((a) =>
+            a.id === id ? { ...a, note: note.trim() || undefined } : a
+          ),
+        }));
+        const annotation = get().annotations.find((a) => a.id === id);
+        if (annotation) saveAnnotation(annotation).catch(console.error);
+      },
+
+      removeAnnotation: (id) => {
+        set((state) => ({
+          annotations: state.annotations.filter((a) => a.id !== id),
+        }));
+        deleteAnnotation(id).catch(console.error);
+      },
+
+      startAudioExport: async (file) => {
+        if (get().audioExport?.status === "running") {
+          get().setFeedback("An export is already running");
+          return;
+        }
+        const controller = new AbortController();
+        audioExportController = controller;
+        const job: AudioExportJob = {
+          fileId: file.id,
+          fileName: file.name,
+          done: 0,
+          total: 0,
+          chapter: "",
+          status: "running",
+        };
+        set({ audioExport: job });
+
+        try {
+          const doc = await loadDocument(file.id);
+          if (!doc) throw new Error("Document not found in library");
+
+          const { voice, autoVoice } = get();
+          const blob = await exportAudiobook(file.name, doc.words, doc.chapters, {
+            voice: resolveVoice(voice, autoVoice, detectLanguage(doc.words)),
+            signal: controller.signal,
+            onProgress: ({ done, total, chapter }) => {
+              if (audioExportController === controller) {
+                set({ audioExport: { ...job, done, total, chapter } });
+              }
+            },
+          });
+          if (controller.signal.aborted) return;
+
+          downloadBlob(blob, `${safeFileName(file.name)} (audiobook).zip`);
+          set((state) => ({
+            audioExport: state.audioExport && { ...state.audioExport, status: "done" },
+          }));
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error("[Export] Audiobook export failed", error);
+          set((state) => ({
+            audioExport: state.audioExport && {
+              ...state.audioExport,
+              status: "error",
+              error: error instanceof Error ? error.message : "Export failed",
+            },
+          }));
+        } finally {
+          if (audioExportController === controller) audioExportController = null;
+        }
+      },
+
+      cancelAudioExport: () => {
+        audioExportController?.abort();
+        audioExportController = null;
+        set({ audioExport: null });
+      },
+
+      dismissAudioExport: () => set({ audioExport: null }),
+
       setWpm: (wpm) => {
           const { isAudioEnabled } = get();
-          // User Request: Cap audio speed at 250 WPM
-          const limit = isAudioEnabled ? 250 : 1000; 
+          // Audio is capped at what the synthesizer can still speak clearly
+          const limit = isAudioEnabled ? MAX_AUDIO_WPM : 1000; 
           set({ wpm: Math.min(wpm, limit) });
       },
 
@@ -220,42 +561,68 @@ export const useStore = create<AppState>()(
       setColorTheme: (theme) => set({ colorTheme: theme }),
       reset: () => set({ currentIndex: 0, isPlaying: true }),
 
-      loadRecentFile: (file) => {
-        if (file.fullText) {
-          // 1. Prioritize stored chapters if they exist (Robust PDF ones)
-          // 2. Fallback to detection only if missing
-          const { words } = detectChapters(file.fullText);
-          const chapters =
-            file.chapters || detectChapters(file.fullText).chapters;
-
-          set({
-            content: words,
-            chapters,
-            currentFileId: file.id,
-            currentIndex: file.progress || 0,
-            isPlaying: false,
-          });
+      loadRecentFile: async (file) => {
+        // Text is loaded lazily: only the opened document is read from IndexedDB.
+        // Callers fire this from click handlers, so failures end here.
+        let doc: StoredDocument | undefined;
+        let annotations: Annotation[];
+        try {
+          [doc, annotations] = await Promise.all([
+            loadDocument(file.id),
+            loadAnnotations(file.id).catch(() => []),
+          ]);
+        } catch (error) {
+          console.error(`[Library] Failed to open ${file.id}`, error);
+          get().setFeedback("Could not open file");
+          return;
+        }
+        if (!doc) {
+          console.warn(`[Library] No stored content for ${file.id}`);
+          get().setFeedback("File content missing");
+          return;
         }
+
+        set({
+          content: doc.words,
+          ...getDocumentStructure(doc),
+          sourceMap: doc.sourceMap || null,
+          documentLanguage: detectLanguage(doc.words),
+          chapters: doc.chapters,
+          annotations,
+          currentFileId: file.id,
+          currentIndex: file.progress || 0,
+          isPlaying: false,
+        });
       },
 
-      updateRecentFileProgress: (id, index) =>
+      updateRecentFileProgress: (id, index) => {
         set((state) => ({
           recentFiles: state.recentFiles.map((f) =>
             f.id === id ? { ...f, progress: index, timestamp: Date.now() } : f
           ),
-        })),
+        }));
+        const file = get().recentFiles.find((f) => f.id === id);
+        if (file) scheduleFileMetaSave(file);
+      },
 
-      moveFile: (fileId, folderId) =>
+      moveFile: (fileId, folderId) => {
         set((state) => ({
           recentFiles: state.recentFiles.map((f) =>
             f.id === fileId ? { ...f, folderId } : f
           ),
-        })),
+        }));
+        const file = get().recentFiles.find((f) => f.id === fileId);
+        if (file) saveFileMeta(file).catch(console.error);
+      },
 
       goHome: () =>
         set({
           content: DEFAULT_CONTENT,
+          ...DEFAULT_STRUCTURE,
+          sourceMap: null,
+          documentLanguage: "en",
           chapters: DEFAULT_CHAPTERS,
+          annotations: [],
           currentFileId: "demo",
           currentIndex: 0,
           isPlaying: false,
@@ -278,8 +645,8 @@ export const useStore = create<AppState>()(
           let nextWpm = state.wpm;
           
           // Clamp WPM if turning audio ON
-          if (nextState && nextWpm > 250) {
-              nextWpm = 250;
+          if (nextState && nextWpm > MAX_AUDIO_WPM) {
+              nextWpm = MAX_AUDIO_WPM;
           }
 
           return { 
@@ -289,12 +656,14 @@ export const useStore = create<AppState>()(
       }),
 
       seekByTime: (seconds) => {
-        const { wpm, currentIndex, content } = get();
-        const wordsToSeek = Math.ceil((wpm / 60) * Math.abs(seconds));
-        const newIndex =
-          seconds < 0
-            ? Math.max(0, currentIndex - wordsToSeek)
-            : Math.min(content.length - 1, currentIndex + wordsToSeek);
+        const { wpm, currentIndex, content, paragraphEnds } = get();
+        // Walk the adaptive timing model so "10s" matches what the timer would show
+        const newIndex = getIndexAfterDuration(
+          getTimingModel(content, paragraphEnds),
+          currentIndex,
+          seconds * 1000,
+          wpm
+        );
 
         set({ currentIndex: newIndex });
         get().setFeedback(seconds > 0 ? `+${seconds}s` : `${seconds}s`);
@@ -306,20 +675,38 @@ export const useStore = create<AppState>()(
         }
       },
 
-      restoreSession: () => {
-        const { currentFileId, recentFiles } = get();
+      restoreSession: async () => {
+        try {
+          const recentFiles = await loadLibrary();
+          set({ recentFiles, isLibraryLoaded: true });
+        } catch (error) {
+          console.error("[Library] Failed to load library", error);
+          set({ isLibraryLoaded: true });
+          return;
+        }
+
+        const { currentFileId } = get();
         if (currentFileId && currentFileId !== "demo") {
-          const file = recentFiles.find((f) => f.id === currentFileId);
-          if (file && file.fullText) {
-            const words = file.fullText
-              .split(/\s+/)
-              .filter((w) => w.length > 0);
-            const chapters = file.chapters || [
-              { title: "Chapter 1", startIndex: 0, wordCount: words.length },
-            ];
+          let doc: StoredDocument | undefined;
+          let annotations: Annotation[];
+          try {
+            [doc, annotations] = await Promise.all([
+              loadDocument(currentFileId),
+              loadAnnotations(currentFileId).catch(() => []),
+            ]);
+          } catch (error) {
+            console.error(`[Library] Failed to restore ${currentFileId}`, error);
+            get().goHome();
+            return;
+          }
+          if (doc) {
             set({
-              content: words,
-              chapters: chapters,
+              content: doc.words,
+              ...getDocumentStructure(doc),
+              sourceMap: doc.sourceMap || null,
+              documentLanguage: detectLanguage(doc.words),
+              chapters: doc.chapters,
+              annotations,
               isPlaying: false,
             });
           }
@@ -329,15 +716,33 @@ export const useStore = create<AppState>()(
     {
       name: "photon-storage",
       storage: createJSONStorage(() => localStorage),
+      // v0 kept every document (including fullText) in this blob.
+      // v1 moves the library to IndexedDB; migrate once, then drop it from localStorage.
+      version: 1,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<AppState> & {
+          recentFiles?: LegacyRecentFile[];
+        };
+        if (version < 1 && state.recentFiles?.length) {
+          // Free the old blob's space first so the backup copy (see migrateLegacyFiles) fits
+          localStorage.removeItem("photon-storage");
+          migrateLegacyFiles(state.recentFiles);
+        }
+        delete state.recentFiles;
+        return state as AppState;
+      },
       partialize: (state) => ({
         theme: state.theme,
         colorTheme: state.colorTheme,
         wpm: state.wpm,
-        recentFiles: state.recentFiles,
         folders: state.folders,
         currentFileId: state.currentFileId,
         currentIndex: state.currentIndex,
         isAudioEnabled: state.isAudioEnabled,
+        voice: state.voice,
+        autoVoice: state.autoVoice,
+        quizPrompts: state.quizPrompts,
+        displayMode: state.displayMode,
       }),
     }
   )